@@ -22,6 +22,52 @@ export interface NodeHover extends NodeBase {
   docs?: string
   /** JSDoc tags */
   tags?: [name: string, text: string | undefined][]
+  /** The parts of `text` with their token kinds */
+  displayParts?: DisplayPart[]
+  /** The kind of the symbol, e.g. `const` or `method` */
+  kind?: string
+  /** Comma separated modifiers of the symbol, e.g. `export,deprecated` */
+  kindModifiers?: string
+  /** The structure of the type, available with the `typeTree` option */
+  typeTree?: TypeTree
+}
+
+/**
+ * A JSON serializable description of a type, for hovers that can be expanded step by step
+ */
+export interface TypeTree {
+  /** The type as printed by the compiler */
+  text: string
+  kind: 'primitive' | 'literal' | 'union' | 'intersection' | 'object' | 'array' | 'tuple' | 'function' | 'typeParameter' | 'other'
+  /** Properties of object types */
+  properties?: TypeTreeProperty[]
+  /** Constituents of union and intersection types */
+  types?: TypeTree[]
+  /** Type arguments of generic types, including the elements of arrays and tuples */
+  typeArguments?: TypeTree[]
+  /** Call signatures of function types */
+  signatures?: TypeTreeSignature[]
+  /** Some children were left out because of the depth or size limits */
+  truncated?: boolean
+}
+
+export interface TypeTreeProperty {
+  name: string
+  optional?: boolean
+  readonly?: boolean
+  type: TypeTree
+}
+
+export interface TypeTreeSignature {
+  text: string
+  parameters: Omit<TypeTreeProperty, 'readonly'>[]
+  returnType: TypeTree
+}
+
+export interface DisplayPart {
+  text: string
+  /** The kind of the token, e.g. `keyword`, `parameterName` or `aliasName` */
+  kind: string
 }
 
 export interface NodeHighlight extends NodeBase {
@@ -32,11 +78,23 @@ export interface NodeHighlight extends NodeBase {
 
 export interface NodeQuery extends Omit<NodeHover, 'type'> {
   type: 'query'
+  /** `text` is the fully evaluated type, requested with `^??` */
+  expanded?: boolean
 }
 
 export interface CompletionEntry {
   name: string
   kind?: string
+  /** Comma separated modifiers of the entry, e.g. `export,deprecated` */
+  kindModifiers?: string
+  /** The text used to sort the entries, the same way editors do */
+  sortText?: string
+  /** Whether the entry is marked as deprecated */
+  isDeprecated?: boolean
+  /** The signature or type of the entry */
+  detail?: string
+  /** Attached JSDoc info */
+  docs?: string
 }
 
 export interface NodeCompletion extends NodeBase {
@@ -47,8 +105,70 @@ export interface NodeCompletion extends NodeBase {
   completionsPrefix: string
 }
 
+export interface NodeSemantic extends NodeBase {
+  type: 'semantic'
+  /** The string content of the node this represents (mainly for debugging) */
+  target: string
+  /** The semantic token type, e.g. `class`, `interface`, `parameter` or `property` */
+  tokenType: string
+  /** The semantic token modifiers, e.g. `declaration`, `readonly` or `deprecated` */
+  tokenModifiers: string[]
+}
+
+export interface NodeInlay extends NodeBase {
+  type: 'inlay'
+  /** The label of the hint */
+  text: string
+  /** The kind of the hint, can be `Type`, `Parameter` or `Enum` */
+  kind: string
+  /** Whether the hint should be rendered with a space before it */
+  paddingLeft?: boolean
+  /** Whether the hint should be rendered with a space after it */
+  paddingRight?: boolean
+}
+
+export interface SignatureParameter {
+  name: string
+  /** The text of the parameter, e.g. `value: string` */
+  text: string
+  /** Attached JSDoc info */
+  docs?: string
+}
+
+export interface SignatureEntry {
+  /** The full text of the signature */
+  text: string
+  parameters: SignatureParameter[]
+  /** Attached JSDoc info */
+  docs?: string
+}
+
+export interface NodeSignature extends NodeBase {
+  type: 'signature'
+  /** All candidate signatures at a particular point */
+  signatures: SignatureEntry[]
+  /** Index of the signature selected by the compiler */
+  selectedSignature: number
+  /** Index of the argument at the point */
+  activeParameter: number
+}
+
 export type ErrorLevel = 'warning' | 'error' | 'suggestion' | 'message'
 
+export interface NodeTextEdit extends NodeLocation {
+  /** The text to replace the range with */
+  newText: string
+}
+
+export interface ErrorFix {
+  /** Description of the fix, e.g. `Add import from "./foo"` */
+  description: string
+  /** Name of the fix in the compiler, e.g. `import` */
+  fixName: string
+  /** The text edits to apply */
+  changes: NodeTextEdit[]
+}
+
 export interface NodeError extends NodeBase {
   type: 'error'
   id?: string
@@ -69,6 +189,10 @@ export interface NodeError extends NodeBase {
    * The filename of the file the error is in
    */
   filename?: string
+  /**
+   * Quick fixes suggested by the compiler
+   */
+  fixes?: ErrorFix[]
 }
 
 export interface NodeTag extends NodeBase {
@@ -79,14 +203,48 @@ export interface NodeTag extends NodeBase {
   text?: string
 }
 
-export type TwoslashNode = NodeHighlight | NodeHover | NodeQuery | NodeCompletion | NodeError | NodeTag
+/**
+ * A location in the code that a node points to
+ */
+export interface NodeLocation extends NodeStartLength, Partial<Position> {
+  /** The filename of the location, relative to the root of the virtual file system */
+  filename: string
+  /**
+   * Whether the location is outside of the sample, e.g. in `node_modules` or TypeScript's lib files.
+   * External locations have `start` relative to their own file, and no `line` or `character`
+   */
+  external?: boolean
+}
+
+export interface NodeDefinition extends NodeBase {
+  type: 'definition'
+  /** The string content of the node this represents (mainly for debugging) */
+  target: string
+  /** Where the identifier is declared */
+  definitions: NodeLocation[]
+}
+
+export interface NodeReference extends NodeBase {
+  type: 'reference'
+  /** The string content of the node this represents (mainly for debugging) */
+  target: string
+  /** Other places where the same symbol is referenced */
+  references: NodeLocation[]
+}
+
+export type TwoslashNode = NodeHighlight | NodeHover | NodeQuery | NodeCompletion | NodeError | NodeTag | NodeDefinition | NodeReference | NodeSignature | NodeSemantic | NodeInlay
 
 export type NodeWithoutPosition = Omit<NodeHighlight, keyof Position> |
   Omit<NodeHover, keyof Position> |
   Omit<NodeQuery, keyof Position> |
   Omit<NodeCompletion, keyof Position> |
   Omit<NodeError, keyof Position> |
-  Omit<NodeTag, keyof Position>
+  Omit<NodeTag, keyof Position> |
+  Omit<NodeDefinition, keyof Position> |
+  Omit<NodeReference, keyof Position> |
+  Omit<NodeSignature, keyof Position> |
+  Omit<NodeSemantic, keyof Position> |
+  Omit<NodeInlay, keyof Position>
 
 export type NodeErrorWithoutPosition = Omit<NodeError, keyof Position>
 
@@ -24,6 +24,7 @@ import {
   defaultHandbookOptions,
   findFlagNotations,
   findQueryMarkers,
+  findTypeExpectations,
   getObjectHash,
 } from 'twoslash'
 import {
@@ -105,7 +106,11 @@ export function createTwoslasher(createOptions: CreateTwoslashVueOptions = {}):
       removals: [] as Range[],
       positionCompletions: [] as number[],
       positionQueries: [] as number[],
+      positionExpandedQueries: [] as number[],
       positionHighlights: [] as TwoslashReturnMeta['positionHighlights'],
+      positionSignatures: [] as number[],
+      positionErrorExpectations: [] as TwoslashReturnMeta['positionErrorExpectations'],
+      positionTypeExpectations: [] as TwoslashReturnMeta['positionTypeExpectations'],
       flagNotations: [] as ParsedFlagNotation[],
     } satisfies Partial<TwoslashReturnMeta>
 
@@ -136,6 +141,9 @@ export function createTwoslasher(createOptions: CreateTwoslashVueOptions = {}):
     }
     // #endregion
 
+    if (handbookOptions.assertTypes)
+      findTypeExpectations(code, sourceMeta)
+
     // replace non-whitespace in the already extracted markers
     let strippedCode = code
     for (const [start, end] of sourceMeta.removals) {
@@ -178,15 +186,26 @@ export function createTwoslasher(createOptions: CreateTwoslashVueOptions = {}):
       },
       positionCompletions: sourceMeta.positionCompletions
         .map(p => getLastGeneratedOffset(p)!),
+      positionSignatures: sourceMeta.positionSignatures
+        .map(p => getLastGeneratedOffset(p)!),
       positionQueries: sourceMeta.positionQueries
         .map(p => get(map.toGeneratedLocation(p), 0)?.[0])
         .filter(isNotNull),
+      positionExpandedQueries: sourceMeta.positionExpandedQueries
+        .map(p => get(map.toGeneratedLocation(p), 0)?.[0])
+        .filter(isNotNull),
       positionHighlights: sourceMeta.positionHighlights
         .map(([start, end]) => [
           get(map.toGeneratedLocation(start), 0)?.[0],
           get(map.toGeneratedLocation(end), 0)?.[0],
         ])
         .filter((x): x is [number, number] => x[0] != null && x[1] != null),
+      positionErrorExpectations: sourceMeta.positionErrorExpectations
+        .map(([p, expected]) => [get(map.toGeneratedLocation(p), 0)?.[0], expected])
+        .filter((x): x is [number, string] => x[0] != null),
+      positionTypeExpectations: sourceMeta.positionTypeExpectations
+        .map(([p, expected, notation]) => [get(map.toGeneratedLocation(p), 0)?.[0], expected, notation] as const)
+        .filter((x): x is TwoslashReturnMeta['positionTypeExpectations'][number] => x[0] != null),
     })
 
     if (createOptions.debugShowGeneratedCode)
@@ -1,26 +1,45 @@
-import type { ErrorLevel, NodeError, NodeWithoutPosition, Position, Range } from 'twoslash-protocol'
-import type { CompilerOptions, CompletionEntry, CompletionTriggerKind, DiagnosticCategory, JsxEmit, System } from 'typescript'
+import type { ErrorFix, ErrorLevel, NodeError, NodeHover, NodeLocation, NodeQuery, NodeWithoutPosition, Position, Range } from 'twoslash-protocol'
+import type { CompilerOptions, CompletionEntry, CompletionTriggerKind, Diagnostic, DiagnosticCategory, FileTextChanges, JsxEmit, ModuleKind, ModuleResolutionKind, NavigationTree, Node, ParsedCommandLine, ProjectReference, Statement, SymbolDisplayPart, System, TextSpan, TypeFormatFlags, UserPreferences } from 'typescript'
 
-import type { CompilerOptionDeclaration, CreateTwoslashOptions, TwoslashExecuteOptions, TwoslashInstance, TwoslashOptions, TwoslashReturn, TwoslashReturnMeta, VirtualFile } from './types'
+import type { CompilerOptionDeclaration, CreateTwoslashOptions, NavigationTreeItem, NavigationTreeSpan, TwoslashExecuteOptions, TwoslashInstance, TwoslashOptions, TwoslashReturn, TwoslashReturnMeta, VirtualFile } from './types'
 import { createFSBackedSystem, createSystem, createVirtualTypeScriptEnvironment } from '@typescript/vfs'
 
 import { createPositionConverter, isInRange, isInRanges, removeCodeRanges, resolveNodePositions } from 'twoslash-protocol'
 import { defaultCompilerOptions, defaultHandbookOptions } from './defaults'
 import { TwoslashError } from './error'
-import { findCutNotations, findFlagNotations, findQueryMarkers, getExtension, getIdentifierTextSpans, getObjectHash, removeTsExtension, splitFiles, typesToExtension } from './utils'
+import { getExpandedQueryText, getTypeAtPosition } from './expand'
+import { getFileScopedPragmas } from './pragmas'
+import { createProjectEnvironment, isTsconfigFile } from './projects'
+import { reAnnonateMarkers, reFilenamesMakers } from './regexp'
+import { getSourceMapRanges } from './source-map'
+import { loadTsconfigCompilerOptions, parseTsconfig } from './tsconfig'
+import { defaultTypeTreeLimits, getTypeTree } from './type-tree'
+import { applyCodeEdits, createGlobMatcher, decodeSemanticClassification, findCutNotations, findFlagNotations, findQueryMarkers, findTypeExpectations, getExtension, getIdentifierTextSpans, getObjectHash, getQuickInfoType, isPackageFile, mapRangeWithRemovals, removeTsExtension, splitFiles, typesToExtension } from './utils'
 
-import { validateCodeForErrors } from './validation'
+import { validateCodeForErrors, validateErrorExpectations, validateTypeExpectation, validateUnusedErrors } from './validation'
 
 export * from './public'
 
 type TS = typeof import('typescript')
 
+const inlayHintsPreferences: UserPreferences = {
+  includeInlayParameterNameHints: 'all',
+  includeInlayParameterNameHintsWhenArgumentMatchesName: false,
+  includeInlayFunctionParameterTypeHints: true,
+  includeInlayVariableTypeHints: true,
+  includeInlayVariableTypeHintsWhenTypeMatchesName: false,
+  includeInlayPropertyDeclarationTypeHints: true,
+  includeInlayFunctionLikeReturnTypeHints: true,
+  includeInlayEnumMemberValueHints: true,
+}
+
 /**
  * Create a Twoslash instance with cached TS environments
  */
 export function createTwoslasher(createOptions: CreateTwoslashOptions = {}): TwoslashInstance {
   const ts: TS = createOptions.tsModule!
   const tsOptionDeclarations = (ts as any).optionDeclarations as CompilerOptionDeclaration[]
+  const formatSettings = ts.getDefaultFormatCodeSettings('\n')
 
   // In a browser we want to DI everything, in node we can use local infra
   const useFS = !!createOptions.fsMap
@@ -30,6 +49,11 @@ export function createTwoslasher(createOptions: CreateTwoslashOptions = {}): Two
     ? createSystem(vfs)
     : createCacheableFSBackedSystem(vfs, _root, ts, createOptions.tsLibDirectory, createOptions.fsCache)
   const fsRoot = useFS ? '/' : `${_root}/`
+  // The FS-backed system hides the tsconfig files, so the real ones are read from the disk
+  const tsconfigSystem = useFS ? system : ts.sys
+  const tsconfigCompilerOptions = createOptions.tsconfig
+    ? loadTsconfigCompilerOptions(ts, tsconfigSystem, createOptions.tsconfig, fsRoot)
+    : {}
 
   const cache = createOptions.cache === false
     ? undefined
@@ -49,6 +73,20 @@ export function createTwoslasher(createOptions: CreateTwoslashOptions = {}): Two
     return cache.get(key)!
   }
 
+  // The projects of the sample being run, the cached environments of the projects resolve their references with it
+  let getProjectCommandLine: (configPath: string) => ParsedCommandLine | undefined = () => undefined
+
+  function getProjectEnv(compilerOptions: CompilerOptions, references: readonly ProjectReference[], tsconfig: string) {
+    const create = () => createProjectEnvironment(ts, system, compilerOptions, references, configPath => getProjectCommandLine(configPath), createOptions.customTransformers)
+    if (!cache)
+      return create()
+    // The parsed tsconfig.json is hashed by its content, the diagnostics of the references point to it
+    const key = getObjectHash({ compilerOptions: { ...compilerOptions, configFile: undefined }, references, tsconfig })
+    if (!cache.has(key))
+      cache.set(key, create())
+    return cache.get(key)!
+  }
+
   function twoslasher(
     code: string,
     extension = 'ts',
@@ -58,7 +96,9 @@ export function createTwoslasher(createOptions: CreateTwoslashOptions = {}): Two
       extension: typesToExtension(extension),
       compilerOptions: {
         ...defaultCompilerOptions,
-        baseUrl: fsRoot,
+        // The `paths` of a tsconfig without `baseUrl` are resolved against the config file, as tsc does
+        ...(tsconfigCompilerOptions.paths ? {} : { baseUrl: fsRoot }),
+        ...tsconfigCompilerOptions,
         ...createOptions.compilerOptions,
         ...options.compilerOptions,
       },
@@ -70,9 +110,17 @@ export function createTwoslasher(createOptions: CreateTwoslashOptions = {}): Two
       removals: [],
       flagNotations: [],
       virtualFiles: [],
-      positionQueries: options.positionQueries || [],
-      positionCompletions: options.positionCompletions || [],
-      positionHighlights: options.positionHighlights || [],
+      positionQueries: [...(options.positionQueries || [])],
+      positionExpandedQueries: [...(options.positionExpandedQueries || [])],
+      positionCompletions: [...(options.positionCompletions || [])],
+      positionHighlights: [...(options.positionHighlights || [])],
+      positionSignatures: [...(options.positionSignatures || [])],
+      positionErrorExpectations: [...(options.positionErrorExpectations || [])],
+      positionTypeExpectations: [...(options.positionTypeExpectations || [])],
+      navigationTrees: {},
+      emittedFiles: [],
+      emitMappings: [],
+      errorCodes: [],
     }
     const {
       customTags = createOptions.customTags || [],
@@ -86,16 +134,41 @@ export function createTwoslasher(createOptions: CreateTwoslashOptions = {}): Two
     const isInRemoval = (index: number) => index >= code.length || index < 0 || isInRanges(index, meta.removals, false)
 
     meta.flagNotations = findFlagNotations(code, customTags, tsOptionDeclarations)
+    meta.virtualFiles = splitFiles(code, defaultFilename, fsRoot)
+    const pc = createPositionConverter(code)
+
+    // #region apply the tsconfig.json in the sample, the inline flags take precedence
+    const tsconfigFiles = meta.virtualFiles.filter(file => isTsconfigFile(file.filename))
+    // Nested tsconfig.json files split the sample into projects, each built with its own options
+    const hasProjects = tsconfigFiles.some(file => file.filename !== 'tsconfig.json')
+    if (tsconfigFiles.length && !hasProjects) {
+      const { options } = parseVirtualTsconfig(tsconfigFiles[0])
+      if (options.paths && !options.baseUrl)
+        delete meta.compilerOptions.baseUrl
+      Object.assign(meta.compilerOptions, options)
+    }
+    // #endregion
 
     // #region apply flags
+    const fileScopedFlags = meta.flagNotations.find(i => i.name === 'fileScopedFlags')?.value ?? meta.handbookOptions.fileScopedFlags
+    const flagCompilerOptions: CompilerOptions = {}
+    // Files after a `// @filename:` line get their own options when the flags are scoped
+    const scopedFiles = fileScopedFlags
+      ? Array.from(code.matchAll(reFilenamesMakers), match => meta.virtualFiles.find(i => i.offset === match.index)!)
+      : []
     for (const flag of meta.flagNotations) {
       switch (flag.type) {
         case 'unknown':
           continue
 
-        case 'compilerOptions':
-          meta.compilerOptions[flag.name] = flag.value
+        case 'compilerOptions': {
+          const file = scopedFiles.find(i => i.offset <= flag.start && flag.start < i.offset + i.content.length)
+          if (file)
+            (file.compilerOptions ||= {})[flag.name] = flag.value
+          else
+            meta.compilerOptions[flag.name] = flagCompilerOptions[flag.name] = flag.value
           break
+        }
         case 'handbookOptions':
           // @ts-expect-error -- this is fine
           meta.handbookOptions[flag.name] = flag.value
@@ -123,24 +196,121 @@ export function createTwoslasher(createOptions: CreateTwoslashOptions = {}): Two
         )
       }
     }
+
+    setModuleResolution(meta.compilerOptions)
     // #endregion
 
     const env = getEnv(meta.compilerOptions)
-    const ls = env.languageService
-    const pc = createPositionConverter(code)
+    const projects = hasProjects ? createProjects() : []
+
+    // The emitted files analyzed with `analyzeEmit` or `emittedFiles`, in an environment allowing the JavaScript output and checking the declarations
+    const emittedVirtualFiles: VirtualFile[] = []
+    let emitEnv: ReturnType<typeof getEnv> | undefined
+
+    function getEnvOfFile(file: VirtualFile) {
+      if (emittedVirtualFiles.includes(file))
+        return emitEnv ||= getEnv({ ...meta.compilerOptions, allowJs: true, skipLibCheck: false })
+      return projects.find(i => i.file.filename === file.project)?.env || env
+    }
+
+    function getLanguageService(file: VirtualFile) {
+      return getEnvOfFile(file).languageService
+    }
 
     // extract cuts
     findCutNotations(code, meta)
+    // hide the virtual packages
+    if (!meta.handbookOptions.showPackageFiles) {
+      for (const file of meta.virtualFiles) {
+        if (isPackageFile(file.filename))
+          meta.removals.push([file.offset, file.offset + file.content.length])
+      }
+    }
     // extract markers
     findQueryMarkers(code, meta, pc)
+    if (meta.handbookOptions.assertTypes)
+      findTypeExpectations(code, meta)
 
-    const supportedFileTyes = ['js', 'jsx', 'ts', 'tsx']
-    meta.virtualFiles = splitFiles(code, defaultFilename, fsRoot)
+    const supportedFileTyes = ['js', 'jsx', 'ts', 'tsx', 'mjs', 'cjs', 'mts', 'cts', 'd.ts', 'd.mts', 'd.cts']
     const identifiersMap = new Map<string, ReturnType<typeof getIdentifierTextSpans>>()
 
+    function parseVirtualTsconfig(file: VirtualFile) {
+      const getVirtualFile = (filepath: string) => meta.virtualFiles.find(i => i.filepath === filepath)
+      const { options, errors, references, source } = parseTsconfig(ts, {
+        useCaseSensitiveFileNames: tsconfigSystem.useCaseSensitiveFileNames,
+        fileExists: filepath => !!getVirtualFile(filepath) || tsconfigSystem.fileExists(filepath),
+        readFile: filepath => getVirtualFile(filepath)?.content ?? tsconfigSystem.readFile(filepath),
+      }, file.content, file.filepath)
+
+      if (errors.length) {
+        const messages = errors.map((e) => {
+          const location = e.file?.fileName === file.filepath && e.start !== undefined
+            ? ` (line ${pc.indexToPos(file.offset + e.start).line + 1})`
+            : ''
+          return `[${e.code}] ${ts.flattenDiagnosticMessageText(e.messageText, '\n')}${location}`
+        })
+        throw new TwoslashError(
+          `Invalid tsconfig.json in the sample`,
+          `TypeScript could not parse the ${file.filename} in the sample:\n${messages.join('\n')}`,
+          `Fix the errors in the JSON, or use inline flags like \`// @strict\` instead.`,
+        )
+      }
+      return { options, references, source }
+    }
+
+    /**
+     * Every tsconfig.json makes a project of the files in its folder, a file belongs to the closest one.
+     * The projects are built in their own programs, with the inline flags taking precedence.
+     */
+    function createProjects() {
+      const configs = tsconfigFiles
+        .map((file) => {
+          const { options, references, source } = parseVirtualTsconfig(file)
+          const compilerOptions: CompilerOptions = {
+            ...meta.compilerOptions,
+            ...(options.paths && !options.baseUrl ? { baseUrl: undefined } : {}),
+            ...options,
+            ...flagCompilerOptions,
+            // The diagnostics about the references point to the tsconfig.json
+            configFile: source,
+            configFilePath: file.filepath,
+          }
+          setModuleResolution(compilerOptions)
+          return {
+            file,
+            dir: file.filepath.slice(0, -'tsconfig.json'.length),
+            compilerOptions,
+            references,
+          }
+        })
+        .sort((a, b) => b.dir.length - a.dir.length)
+
+      for (const file of meta.virtualFiles) {
+        if (!isTsconfigFile(file.filename))
+          file.project = configs.find(i => file.filepath.startsWith(i.dir))?.file.filename
+      }
+
+      getProjectCommandLine = (configPath: string): ParsedCommandLine | undefined => {
+        const project = configs.find(i => i.file.filepath === configPath)
+        if (!project)
+          return undefined
+        return {
+          options: project.compilerOptions,
+          fileNames: meta.virtualFiles.filter(i => i.supportLsp && i.project === project.file.filename).map(i => i.filepath),
+          projectReferences: project.references,
+          errors: [],
+        }
+      }
+
+      return configs.map(config => ({
+        ...config,
+        env: getProjectEnv(config.compilerOptions, config.references, config.file.content),
+      }))
+    }
+
     function getIdentifiersOfFile(file: VirtualFile) {
       if (!identifiersMap.has(file.filename)) {
-        const source = env.getSourceFile(file.filepath)!
+        const source = getEnvOfFile(file).getSourceFile(file.filepath)!
         identifiersMap.set(file.filename, getIdentifierTextSpans(ts, source, file.offset - (file.prepend?.length || 0)))
       }
       return identifiersMap.get(file.filename)!
@@ -150,8 +320,36 @@ export function createTwoslasher(createOptions: CreateTwoslashOptions = {}): Two
       return meta.virtualFiles.find(i => isInRange(pos, [i.offset, i.offset + i.content.length]))
     }
 
-    function getQuickInfo(file: VirtualFile, start: number, target: string): NodeWithoutPosition | undefined {
-      const quickInfo = ls.getQuickInfoAtPosition(file.filepath, getOffsetInFile(start, file))
+    const navigationTrees: [file: VirtualFile, tree: NavigationTree][] = []
+
+    // Locations in virtual files that nodes point to, they are remapped along with the nodes
+    const locations: NodeLocation[] = []
+
+    function getLocation(filepath: string, span: TextSpan): NodeLocation {
+      const file = meta.virtualFiles.find(i => i.filepath === filepath)
+      if (file) {
+        const start = span.start + file.offset - (file.prepend?.length || 0)
+        // Spans within the prepended or appended content are not visible in the code
+        if (start >= file.offset && start + span.length <= file.offset + file.content.length) {
+          const location: NodeLocation = {
+            filename: file.filename,
+            start,
+            length: span.length,
+          }
+          locations.push(location)
+          return location
+        }
+      }
+      return {
+        filename: filepath.startsWith(fsRoot) ? filepath.slice(fsRoot.length) : filepath,
+        start: span.start,
+        length: span.length,
+        external: true,
+      }
+    }
+
+    function getQuickInfo(file: VirtualFile, start: number, target: string): Omit<NodeHover, keyof Position> | undefined {
+      const quickInfo = getLanguageService(file).getQuickInfoAtPosition(file.filepath, getOffsetInFile(start, file))
 
       if (quickInfo && quickInfo.displayParts) {
         const text = quickInfo.displayParts.map(dp => dp.text).join('')
@@ -167,10 +365,67 @@ export function createTwoslasher(createOptions: CreateTwoslashOptions = {}): Two
           start,
           length: target.length,
           target,
+          ...(meta.handbookOptions.displayParts
+            ? {
+                displayParts: quickInfo.displayParts.map(({ text, kind }) => ({ text, kind })),
+                kind: quickInfo.kind,
+                kindModifiers: quickInfo.kindModifiers,
+              }
+            : {}),
+          ...(meta.handbookOptions.typeTree
+            ? { typeTree: getTypeTreeAtPosition(file, start) }
+            : {}),
         }
       }
     }
 
+    function getTypeTreeAtPosition(file: VirtualFile, start: number) {
+      const checker = getLanguageService(file).getProgram()!.getTypeChecker()
+      const target = getTypeAtPosition(ts, checker, getEnvOfFile(file).getSourceFile(file.filepath)!, getOffsetInFile(start, file))
+      if (!target)
+        return undefined
+      const depth = meta.handbookOptions.typeTree
+      return getTypeTree(ts, checker, target.type, {
+        ...defaultTypeTreeLimits,
+        ...(typeof depth === 'number' ? { depth } : {}),
+      })
+    }
+
+    /** The type of the declared variable, or of the expression, of the statement starting at the position */
+    function getTypeOfStatementAt(file: VirtualFile, start: number) {
+      const sourceFile = getEnvOfFile(file).getSourceFile(file.filepath)!
+      const offset = getOffsetInFile(start, file)
+      // The statement can be nested in a function, a block or a namespace
+      const findStatement = (node: Node): Statement | undefined => ts.forEachChild(node, (child) => {
+        if (child.getStart(sourceFile) > offset || child.getEnd() <= offset)
+          return undefined
+        return findStatement(child) || (ts.isStatement(child) && child.getStart(sourceFile) === offset ? child : undefined)
+      })
+      const statement = findStatement(sourceFile)
+      const checker = getLanguageService(file).getProgram()!.getTypeChecker()
+      let node: Node | undefined
+      if (statement && ts.isVariableStatement(statement))
+        node = statement.declarationList.declarations[0].name
+      else if (statement && ts.isExpressionStatement(statement))
+        node = statement.expression
+      if (node)
+        return checker.typeToString(checker.getTypeAtLocation(node), undefined, 1 satisfies TypeFormatFlags.NoTruncation)
+    }
+
+    function getCodeFixes(file: VirtualFile, start: number, length: number, code: number): ErrorFix[] {
+      const ls = getLanguageService(file)
+      return ls.getCodeFixesAtPosition(file.filepath, start, start + length, [code], formatSettings, {})
+        .map(fix => ({
+          description: fix.description,
+          fixName: fix.fixName,
+          // The location object is kept as-is so it gets remapped with the others
+          changes: fix.changes.flatMap(change => change.textChanges.map(textChange => Object.assign(
+            getLocation(change.fileName, textChange.span),
+            { newText: textChange.newText },
+          ))),
+        }))
+    }
+
     Object.entries(extraFiles)
       .forEach(([filename, content]) => {
         if (!meta.virtualFiles.find(i => i.filename === filename)) {
@@ -193,9 +448,15 @@ export function createTwoslasher(createOptions: CreateTwoslashOptions = {}): Two
           file.append = extra.append
           file.prepend = extra.prepend
         }
-        env.createFile(file.filepath, getFileContent(file))
+        if (file.compilerOptions)
+          file.prepend = getFileScopedPragmas(file, file.compilerOptions) + (file.prepend || '')
+        getEnvOfFile(file).createFile(file.filepath, getFileContent(file))
         getIdentifiersOfFile(file)
       }
+      // The manifests of the virtual packages are read by the module resolution
+      else if (isPackageFile(file.filename)) {
+        getEnvOfFile(file).createFile(file.filepath, file.content)
+      }
     }
     // #endregion
 
@@ -207,6 +468,107 @@ export function createTwoslasher(createOptions: CreateTwoslashOptions = {}): Two
       return (file.prepend || '') + file.content + (file.append || '')
     }
 
+    function cleanupFiles() {
+      for (const file of meta.virtualFiles)
+        getEnvOfFile(file).createFile(file.filepath, '')
+      for (const file of Object.keys(extraFiles))
+        env.createFile(fsRoot + file, '')
+      for (const file of emittedVirtualFiles)
+        getEnvOfFile(file).createFile(file.filepath, '')
+    }
+
+    // #region apply refactors, then re-run on the edited code
+    if (meta.handbookOptions.applyRefactor || meta.handbookOptions.organizeImports) {
+      const edits: [start: number, end: number, text: string][] = []
+      const addEdits = (changes: readonly FileTextChanges[]) => {
+        for (const change of changes) {
+          const file = meta.virtualFiles.find(i => i.filepath === change.fileName)
+          if (!file)
+            continue
+          for (const textChange of change.textChanges) {
+            const start = textChange.span.start + file.offset - (file.prepend?.length || 0)
+            if (start < file.offset || start + textChange.span.length > file.offset + file.content.length)
+              continue
+            edits.push([start, start + textChange.span.length, textChange.newText])
+          }
+        }
+      }
+
+      // Remove the notations so the re-run does not apply them again
+      for (const flag of meta.flagNotations) {
+        if (flag.name === 'applyRefactor' || flag.name === 'organizeImports')
+          edits.push([flag.start, flag.end, ''])
+      }
+
+      if (meta.handbookOptions.organizeImports) {
+        for (const file of meta.virtualFiles) {
+          if (file.supportLsp)
+            addEdits(getLanguageService(file).organizeImports({ type: 'file', fileName: file.filepath }, formatSettings, {}))
+        }
+      }
+
+      if (meta.handbookOptions.applyRefactor) {
+        const name = meta.handbookOptions.applyRefactor
+        // The first highlight from the code, highlights passed from options come first
+        const highlightIndex = options.positionHighlights?.length || 0
+        const highlight = meta.positionHighlights[highlightIndex]
+        const file = highlight && getFileAtPosition(highlight[0])
+        if (!file) {
+          throw new TwoslashError(
+            `Missing range for refactor`,
+            `The refactor '${name}' requires a range to apply on.`,
+            `Use ^^^ to highlight the range in the line above it.`,
+          )
+        }
+        // The `^^^` marker of the range, the first one below it in the same column
+        const { character } = pc.indexToPos(highlight[0])
+        const marker = Array.from(code.matchAll(reAnnonateMarkers))
+          .find(m => m[1].startsWith('^') && m.index! > highlight[0] && pc.indexToPos(m.index! + m[0].indexOf('^')).character === character)
+        if (marker)
+          edits.push([marker.index!, marker.index! + marker[0].length + 1, ''])
+
+        const range = { pos: getOffsetInFile(highlight[0], file), end: getOffsetInFile(highlight[1], file) }
+        const ls = getLanguageService(file)
+        const actions = ls.getApplicableRefactors(file.filepath, range, {})
+          .flatMap(refactor => refactor.actions.map(action => ({ refactor, action })))
+          .filter(i => !i.action.notApplicableReason)
+        const match = actions.find(i => [i.action.description, i.action.name, i.refactor.description, i.refactor.name].includes(name))
+          || actions.find(i => i.action.description.startsWith(name))
+        if (!match) {
+          throw new TwoslashError(
+            `Unknown refactor`,
+            `The refactor '${name}' is not available for the highlighted range in ${file.filename}.`,
+            `Available refactors: ${actions.map(i => i.action.description).join(', ') || 'none'}`,
+          )
+        }
+        const result = ls.getEditsForRefactor(file.filepath, formatSettings, range, match.refactor.name, match.action.name, {})
+        addEdits(result?.edits || [])
+      }
+
+      // The positions from the options are in the original code
+      const getEditedPosition = (pos: number) => edits
+        .filter(([start, end]) => end <= pos && start < pos)
+        .reduce((pos, [start, end, text]) => pos + text.length - (end - start), pos)
+
+      cleanupFiles()
+      return twoslasher(applyCodeEdits(code, edits), extension, {
+        ...options,
+        positionQueries: options.positionQueries?.map(getEditedPosition),
+        positionExpandedQueries: options.positionExpandedQueries?.map(getEditedPosition),
+        positionCompletions: options.positionCompletions?.map(getEditedPosition),
+        positionSignatures: options.positionSignatures?.map(getEditedPosition),
+        positionHighlights: options.positionHighlights?.map(([start, end, text]) => [getEditedPosition(start), getEditedPosition(end), text]),
+        positionErrorExpectations: options.positionErrorExpectations?.map(([pos, text]) => [getEditedPosition(pos), text]),
+        positionTypeExpectations: options.positionTypeExpectations?.map(([pos, ...rest]) => [getEditedPosition(pos), ...rest]),
+        handbookOptions: {
+          ...options.handbookOptions,
+          applyRefactor: undefined,
+          organizeImports: false,
+        },
+      })
+    }
+    // #endregion
+
     if (!meta.handbookOptions.showEmit) {
       for (const file of meta.virtualFiles) {
         if (!file.supportLsp)
@@ -225,11 +587,127 @@ export function createTwoslasher(createOptions: CreateTwoslashOptions = {}): Two
               nodes.push(node)
           }
         }
+        // #endregion
+
+        // #region get definitions and references
+        if (meta.handbookOptions.definitions || meta.handbookOptions.references) {
+          const identifiers = getIdentifiersOfFile(file)
+          for (const [start, _end, target] of identifiers) {
+            if (isInRemoval(start))
+              continue
+            const isSelf = (location: NodeLocation) => !location.external && location.filename === file.filename && location.start === start
+
+            if (meta.handbookOptions.definitions) {
+              const definitions = (getLanguageService(file).getDefinitionAtPosition(file.filepath, getOffsetInFile(start, file)) || [])
+                .map(d => getLocation(d.fileName, d.textSpan))
+                .filter(l => !isSelf(l))
+              if (definitions.length) {
+                nodes.push({
+                  type: 'definition',
+                  start,
+                  length: target.length,
+                  target,
+                  definitions,
+                })
+              }
+            }
+
+            if (meta.handbookOptions.references) {
+              const references = (getLanguageService(file).findReferences(file.filepath, getOffsetInFile(start, file)) || [])
+                .flatMap(symbol => symbol.references)
+                .map(r => getLocation(r.fileName, r.textSpan))
+                .filter(l => !isSelf(l))
+              if (references.length) {
+                nodes.push({
+                  type: 'reference',
+                  start,
+                  length: target.length,
+                  target,
+                  references,
+                })
+              }
+            }
+          }
+        }
+        // #endregion
+
+        // #region get semantic classifications
+        if (meta.handbookOptions.semanticClassifications) {
+          const content = getFileContent(file)
+          const prependLength = file.prepend?.length || 0
+          const ls = getLanguageService(file)
+          const deprecated = new Set(
+            ls.getSuggestionDiagnostics(file.filepath)
+              .filter(d => d.reportsDeprecated)
+              .map(d => d.start),
+          )
+          const { spans } = ls.getEncodedSemanticClassifications(
+            file.filepath,
+            { start: 0, length: content.length },
+            ts.SemanticClassificationFormat.TwentyTwenty,
+          )
+          // Spans are encoded as triples of [start, length, classification]
+          for (let i = 0; i < spans.length; i += 3) {
+            const [spanStart, length, classification] = [spans[i], spans[i + 1], spans[i + 2]]
+            if (spanStart < prependLength || spanStart + length > prependLength + file.content.length)
+              continue
+            const start = spanStart + file.offset - prependLength
+            if (isInRemoval(start))
+              continue
+            const { tokenType, tokenModifiers } = decodeSemanticClassification(classification)
+            if (!tokenType)
+              continue
+            if (deprecated.has(spanStart))
+              tokenModifiers.push('deprecated')
+            nodes.push({
+              type: 'semantic',
+              start,
+              length,
+              target: content.slice(spanStart, spanStart + length),
+              tokenType,
+              tokenModifiers,
+            })
+          }
+        }
+        // #endregion
+
+        // #region get inlay hints
+        if (meta.handbookOptions.inlayHints) {
+          const prependLength = file.prepend?.length || 0
+          const hints = getLanguageService(file).provideInlayHints(
+            file.filepath,
+            { start: 0, length: getFileContent(file).length },
+            inlayHintsPreferences,
+          )
+          for (const hint of hints) {
+            if (hint.position < prependLength || hint.position > prependLength + file.content.length)
+              continue
+            const start = hint.position + file.offset - prependLength
+            if (isInRemoval(start))
+              continue
+            nodes.push({
+              type: 'inlay',
+              start,
+              length: 0,
+              text: hint.text || hint.displayParts?.map(p => p.text).join('') || '',
+              kind: hint.kind,
+              paddingLeft: hint.whitespaceBefore,
+              paddingRight: hint.whitespaceAfter,
+            })
+          }
+        }
+        // #endregion
+
+        if (meta.handbookOptions.navigationTree)
+          navigationTrees.push([file, getLanguageService(file).getNavigationTree(file.filepath)])
       }
-      // #endregion
 
       // #region get query
-      for (const query of meta.positionQueries) {
+      const queries = [
+        ...meta.positionQueries.map(query => [query, !!meta.handbookOptions.expandQueries] as const),
+        ...meta.positionExpandedQueries.map(query => [query, true] as const),
+      ]
+      for (const [query, expanded] of queries) {
         if (isInRemoval(query)) {
           throw new TwoslashError(
             `Invalid quick info query`,
@@ -242,13 +720,25 @@ export function createTwoslasher(createOptions: CreateTwoslashOptions = {}): Two
         const identifiers = getIdentifiersOfFile(file)
 
         const id = identifiers.find(i => isInRange(query, i as unknown as Range))
-        let node: NodeWithoutPosition | undefined
-        if (id)
-          node = getQuickInfo(file, id[0], id[2])
-
-        if (node) {
-          node.type = 'query'
+        const hover = id && getQuickInfo(file, id[0], id[2])
+
+        if (hover) {
+          const node: Omit<NodeQuery, keyof Position> = { ...hover, type: 'query' }
+          const text = expanded
+            ? getExpandedQueryText(ts, getLanguageService(file).getProgram()!.getTypeChecker(), getEnvOfFile(file).getSourceFile(file.filepath)!, getOffsetInFile(hover.start, file))
+            : undefined
+          if (text) {
+            node.text = text
+            node.expanded = true
+            // The parts describe the unexpanded text
+            delete node.displayParts
+          }
           nodes.push(node)
+
+          const expectation = meta.handbookOptions.assertTypes
+            && meta.positionTypeExpectations.find(([position, _, notation]) => position === query && notation !== '$ExpectType')
+          if (expectation)
+            validateTypeExpectation(expectation[1], getQuickInfoType(node.text, node.target), expectation[2], pc.indexToPos(query).line + 2, node.text)
         }
         else {
           const pos = pc.indexToPos(query)
@@ -261,6 +751,27 @@ export function createTwoslasher(createOptions: CreateTwoslashOptions = {}): Two
       }
       // #endregion
 
+      // #region check $ExpectType
+      if (meta.handbookOptions.assertTypes) {
+        for (const [position, expected, notation] of meta.positionTypeExpectations) {
+          if (notation !== '$ExpectType')
+            continue
+          const file = getFileAtPosition(position)!
+          const actual = getTypeOfStatementAt(file, position)
+          // The line of the statement the comment applies to, there can be blank lines in between
+          const line = pc.indexToPos(position).line + 1
+          if (actual === undefined) {
+            throw new TwoslashError(
+              `Invalid $ExpectType`,
+              `The $ExpectType above line ${line} is not followed by a statement with a type.`,
+              `Put the comment right above a declaration or an expression.`,
+            )
+          }
+          validateTypeExpectation(expected, actual, notation, line)
+        }
+      }
+      // #endregion
+
       // #region get highlights
       for (const highlight of meta.positionHighlights) {
         nodes.push({
@@ -287,10 +798,12 @@ export function createTwoslasher(createOptions: CreateTwoslashOptions = {}): Two
         prefix = prefix.split('.').pop()!
 
         let completions: CompletionEntry[] = []
+        let position = getOffsetInFile(target, file)
 
         // If matched with an identifier prefix
         if (prefix) {
-          const result = ls.getCompletionsAtPosition(file.filepath, getOffsetInFile(target, file) - 1, {
+          position -= 1
+          const result = getLanguageService(file).getCompletionsAtPosition(file.filepath, position, {
             triggerKind: 1 satisfies CompletionTriggerKind.Invoked,
             includeCompletionsForModuleExports: false,
           })
@@ -305,7 +818,7 @@ export function createTwoslasher(createOptions: CreateTwoslashOptions = {}): Two
         else {
           prefix = code[target - 1]
           if (prefix) {
-            const result = ls.getCompletionsAtPosition(file.filepath, getOffsetInFile(target, file), {
+            const result = getLanguageService(file).getCompletionsAtPosition(file.filepath, position, {
               triggerKind: 2 satisfies CompletionTriggerKind.TriggerCharacter,
               triggerCharacter: prefix as any,
               includeCompletionsForModuleExports: false,
@@ -332,6 +845,27 @@ export function createTwoslasher(createOptions: CreateTwoslashOptions = {}): Two
           )
         }
 
+        if (meta.handbookOptions.completionDetails) {
+          const limit = typeof meta.handbookOptions.completionDetails === 'number'
+            ? meta.handbookOptions.completionDetails
+            : Infinity
+          completions = completions
+            .slice()
+            .sort((a, b) => a.sortText.localeCompare(b.sortText) || a.name.localeCompare(b.name))
+            .map((entry, index) => {
+              const isDeprecated = !!entry.kindModifiers?.split(',').includes('deprecated')
+              if (index >= limit)
+                return { ...entry, isDeprecated }
+              const details = getLanguageService(file).getCompletionEntryDetails(file.filepath, position, entry.name, formatSettings, entry.source, {}, entry.data)
+              return {
+                ...entry,
+                isDeprecated,
+                detail: details?.displayParts.map(p => p.text).join('') || undefined,
+                docs: details?.documentation?.map(d => d.text).join('\n') || undefined,
+              }
+            })
+        }
+
         nodes.push({
           type: 'completion',
           start: target,
@@ -341,56 +875,245 @@ export function createTwoslasher(createOptions: CreateTwoslashOptions = {}): Two
         })
       }
       // #endregion
+
+      // #region get signature help
+      for (const target of meta.positionSignatures) {
+        const file = getFileAtPosition(target)!
+        if (isInRemoval(target) || !file) {
+          throw new TwoslashError(
+            `Invalid signature help query`,
+            `The request on line ${pc.indexToPos(target).line + 2} for signature help via ^( is in a removal range.`,
+            `This is likely that the positioning is off.`,
+          )
+        }
+
+        const help = getLanguageService(file).getSignatureHelpItems(file.filepath, getOffsetInFile(target, file), undefined)
+        if (!help?.items.length) {
+          const pos = pc.indexToPos(target)
+          throw new TwoslashError(
+            `Invalid signature help query`,
+            `The request on line ${pos.line + 2} in ${file.filename} for signature help via ^( returned nothing from the compiler.`,
+            `Make sure the caret points to an argument of a call expression.`,
+          )
+        }
+
+        const toText = (parts: SymbolDisplayPart[] | undefined) => parts?.map(p => p.text).join('') || ''
+
+        nodes.push({
+          type: 'signature',
+          start: target,
+          length: 0,
+          signatures: help.items.map(item => ({
+            text: [
+              toText(item.prefixDisplayParts),
+              item.parameters.map(p => toText(p.displayParts)).join(toText(item.separatorDisplayParts)),
+              toText(item.suffixDisplayParts),
+            ].join(''),
+            parameters: item.parameters.map(p => ({
+              name: p.name,
+              text: toText(p.displayParts),
+              docs: toText(p.documentation) || undefined,
+            })),
+            docs: toText(item.documentation) || undefined,
+          })),
+          selectedSignature: help.selectedItemIndex,
+          activeParameter: help.argumentIndex,
+        })
+      }
+      // #endregion
     }
 
     let errorNodes: Omit<NodeError, keyof Position>[] = []
 
     // #region get diagnostics, after all files are mounted
+    const ignores = Array.isArray(meta.handbookOptions.noErrors)
+      ? meta.handbookOptions.noErrors
+      : []
+
+    function addErrorNode(file: VirtualFile, diagnostic: Diagnostic, target: NodeWithoutPosition[] = errorNodes) {
+      if (ignores.includes(diagnostic.code))
+        return
+      // Diagnostics without a location are put on the `// @filename:` line of the file
+      const start = diagnostic.file
+        ? diagnostic.start! + file.offset - (file.prepend?.length || 0)
+        : file.offset
+      const length = diagnostic.file
+        ? diagnostic.length!
+        : file.content.split('\n')[0].length
+      if (meta.handbookOptions.noErrorsCutted && isInRemoval(start))
+        return
+      const fixes = meta.handbookOptions.codeFixes && diagnostic.file && file.supportLsp
+        ? getCodeFixes(file, diagnostic.start!, diagnostic.length!, diagnostic.code)
+        : []
+      target.push({
+        type: 'error',
+        start,
+        length,
+        code: diagnostic.code,
+        filename: file.filename,
+        id: `err-${diagnostic.code}-${start}-${length}`,
+        text: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+        level: diagnosticCategoryToErrorLevel(diagnostic.category),
+        ...(fixes.length ? { fixes } : {}),
+      })
+    }
+
     for (const file of meta.virtualFiles) {
       if (!file.supportLsp)
         continue
 
       if (meta.handbookOptions.noErrors !== true) {
-        env.updateFile(file.filepath, getFileContent(file))
+        getEnvOfFile(file).updateFile(file.filepath, getFileContent(file))
         const diagnostics = [
-          ...ls.getSemanticDiagnostics(file.filepath),
-          ...ls.getSyntacticDiagnostics(file.filepath),
+          ...getLanguageService(file).getSemanticDiagnostics(file.filepath),
+          ...getLanguageService(file).getSyntacticDiagnostics(file.filepath),
         ]
-        const ignores = Array.isArray(meta.handbookOptions.noErrors)
-          ? meta.handbookOptions.noErrors
-          : []
         for (const diagnostic of diagnostics) {
-          if (diagnostic.file?.fileName !== file.filepath)
-            continue
-          if (ignores.includes(diagnostic.code))
-            continue
-          const start = diagnostic.start! + file.offset - (file.prepend?.length || 0)
-          if (meta.handbookOptions.noErrorsCutted && isInRemoval(start))
-            continue
-          errorNodes.push({
-            type: 'error',
-            start,
-            length: diagnostic.length!,
-            code: diagnostic.code,
-            filename: file.filename,
-            id: `err-${diagnostic.code}-${start}-${diagnostic.length}`,
-            text: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
-            level: diagnosticCategoryToErrorLevel(diagnostic.category),
-          })
+          if (diagnostic.file?.fileName === file.filepath)
+            addErrorNode(file, diagnostic)
+        }
+      }
+    }
+
+    // The diagnostics of the projects, like the missing references, point to the tsconfig.json or to the imports
+    if (meta.handbookOptions.noErrors !== true) {
+      for (const project of projects) {
+        for (const diagnostic of project.env.languageService.getCompilerOptionsDiagnostics()) {
+          const file = diagnostic.file
+            ? meta.virtualFiles.find(i => i.filepath === diagnostic.file!.fileName)
+            : project.file
+          if (file)
+            addErrorNode(file, diagnostic)
         }
       }
     }
     // #endregion
 
+    // Errors marked with `^!` are checked against the positions, they don't need to be in `@errors` then
+    const expectedErrorCodes = meta.handbookOptions.noErrorValidation
+      ? []
+      : validateErrorExpectations(errorNodes, meta.positionErrorExpectations, pc)
+
     if (filterNode) {
       nodes = nodes.filter(filterNode)
       errorNodes = errorNodes.filter(filterNode)
     }
     nodes.push(...errorNodes)
+    meta.errorCodes = errorNodes.map(i => i.code as number)
 
     // A validator that error codes are mentioned, so we can know if something has broken in the future
-    if (!meta.handbookOptions.noErrorValidation && errorNodes.length)
-      validateCodeForErrors(errorNodes as NodeError[], meta.handbookOptions, fsRoot)
+    if (!meta.handbookOptions.noErrorValidation && errorNodes.length) {
+      validateCodeForErrors(errorNodes as NodeError[], {
+        errors: [...meta.handbookOptions.errors, ...expectedErrorCodes],
+      }, fsRoot)
+    }
+    // And the other way around, that the mentioned error codes still exist
+    if (!meta.handbookOptions.noErrorValidation && meta.handbookOptions.noUnusedErrors)
+      validateUnusedErrors(errorNodes, meta.handbookOptions.errors, meta.flagNotations, pc)
+
+    /** Update the files to the code without the notations, so they are not emitted */
+    function updateFilesWithoutNotations() {
+      const { code: removedCode } = removeCodeRanges(code, meta.removals)
+      const files = splitFiles(removedCode, defaultFilename, fsRoot)
+      for (const file of files) {
+        const virtualFile = meta.virtualFiles.find(i => i.filename === file.filename)
+        if (!virtualFile?.supportLsp)
+          continue
+        // Keep the pragmas of the file scoped flags, and the content added by the extra files
+        file.prepend = virtualFile.prepend
+        file.append = virtualFile.append
+        getEnvOfFile(virtualFile).updateFile(file.filepath, getFileContent(file))
+      }
+      // The files which only contained flags are not split anymore, so they are emptied
+      for (const virtualFile of meta.virtualFiles) {
+        if (!virtualFile.supportLsp || files.some(i => i.filename === virtualFile.filename))
+          continue
+        const end = virtualFile.offset + virtualFile.content.length
+        const flags: Range[] = meta.flagNotations
+          .filter(i => i.start >= virtualFile.offset && i.end <= end)
+          .map(i => [i.start - virtualFile.offset, i.end - virtualFile.offset])
+        if (!removeCodeRanges(virtualFile.content, flags).code.trim())
+          getEnvOfFile(virtualFile).updateFile(virtualFile.filepath, '')
+      }
+      return { code: removedCode, files }
+    }
+
+    /**
+     * Add an emitted file to the environment as a virtual file, and get its hovers and diagnostics like a sample.
+     * The positions of the nodes are in the text of the file
+     */
+    function analyzeEmittedFile(filepath: string, text: string) {
+      const filename = filepath.startsWith(fsRoot) ? filepath.slice(fsRoot.length) : filepath
+      const file: VirtualFile = {
+        offset: 0,
+        filename,
+        filepath,
+        content: text,
+        extension: getExtension(filename),
+        supportLsp: true,
+      }
+      emittedVirtualFiles.push(file)
+      getEnvOfFile(file).createFile(filepath, text)
+
+      let fileNodes: NodeWithoutPosition[] = []
+      if (!meta.handbookOptions.noStaticSemanticInfo) {
+        for (const [start, _end, target] of getIdentifiersOfFile(file)) {
+          if (!shouldGetHoverInfo(target, start, file.filename))
+            continue
+          const node = getQuickInfo(file, start, target)
+          if (node)
+            fileNodes.push(node)
+        }
+      }
+
+      if (meta.handbookOptions.noErrors !== true) {
+        const ls = getLanguageService(file)
+        const diagnostics = [
+          ...ls.getSemanticDiagnostics(filepath),
+          ...ls.getSyntacticDiagnostics(filepath),
+        ]
+        for (const diagnostic of diagnostics) {
+          if (diagnostic.file?.fileName === filepath)
+            addErrorNode(file, diagnostic, fileNodes)
+        }
+      }
+
+      if (filterNode)
+        fileNodes = fileNodes.filter(filterNode)
+      return { file, nodes: fileNodes }
+    }
+
+    // #region collect the emitted files
+    if (meta.handbookOptions.emittedFiles) {
+      if (!meta.handbookOptions.keepNotations)
+        updateFilesWithoutNotations()
+      const glob = meta.handbookOptions.emittedFiles
+      const isMatch = typeof glob === 'string' ? createGlobMatcher(glob) : () => true
+      for (const file of meta.virtualFiles) {
+        if (!file.supportLsp || isPackageFile(file.filename))
+          continue
+        // Skip the files that only contain notations, like the code before the first `@filename`
+        if (!getEnvOfFile(file).getSourceFile(file.filepath)?.text.trim())
+          continue
+        for (const output of getLanguageService(file).getEmitOutput(file.filepath).outputFiles) {
+          const name = output.name.startsWith(fsRoot) ? output.name.slice(fsRoot.length) : output.name
+          // With `outFile`, all the files emit the same output
+          if (!isMatch(name) || meta.emittedFiles.some(i => i.name === name))
+            continue
+          // The source maps and other files are not analyzed
+          const emittedNodes = supportedFileTyes.includes(getExtension(name))
+            ? analyzeEmittedFile(output.name, output.text).nodes
+            : []
+          meta.emittedFiles.push({
+            name,
+            text: output.text,
+            extension: typesToExtension(getExtension(name)),
+            nodes: resolveNodePositions(emittedNodes, createPositionConverter(output.text).indexToPos),
+          })
+        }
+      }
+    }
+    // #endregion
 
     let outputCode = code
     if (meta.handbookOptions.showEmit) {
@@ -401,18 +1124,15 @@ export function createTwoslasher(createOptions: CreateTwoslashOptions = {}): Two
           'Remove either option to continue',
         )
       }
-      if (!meta.handbookOptions.keepNotations) {
-        const { code: removedCode } = removeCodeRanges(outputCode, meta.removals)
-        const files = splitFiles(removedCode, defaultFilename, fsRoot)
-        for (const file of files)
-          env.updateFile(file.filepath, getFileContent(file))
-      }
+      const sample = updateFilesWithoutNotations()
 
       const emitFilename = meta.handbookOptions.showEmittedFile
         ? meta.handbookOptions.showEmittedFile
-        : meta.compilerOptions.jsx === 1 satisfies JsxEmit.Preserve
-          ? 'index.jsx'
-          : 'index.js'
+        : meta.extension === 'mts' || meta.extension === 'cts'
+          ? `index.${meta.extension.replace('t', 'j')}`
+          : meta.compilerOptions.jsx === 1 satisfies JsxEmit.Preserve
+            ? 'index.jsx'
+            : 'index.js'
 
       let emitSource = meta.virtualFiles.find(i => removeTsExtension(i.filename) === removeTsExtension(emitFilename))?.filename
 
@@ -429,7 +1149,8 @@ export function createTwoslasher(createOptions: CreateTwoslashOptions = {}): Two
       if (meta.compilerOptions.outFile)
         emitSource = meta.virtualFiles[0].filename
 
-      const output = ls.getEmitOutput(fsRoot + emitSource)
+      // Each project emits its own files
+      const output = getLanguageService(meta.virtualFiles.find(i => i.filename === emitSource)!).getEmitOutput(fsRoot + emitSource)
       const outfile = output.outputFiles
         .find(o => o.name === fsRoot + emitFilename || o.name === emitFilename)
 
@@ -442,14 +1163,62 @@ export function createTwoslasher(createOptions: CreateTwoslashOptions = {}): Two
         )
       }
 
+      // #region map the emitted code to the sample, with the source map emitted along it
+      const sourceMap = output.outputFiles.find(o => o.name === `${outfile.name}.map`)
+      if (sourceMap) {
+        const samplePc = createPositionConverter(sample.code)
+        const outfilePc = createPositionConverter(outfile.text)
+        const filesPc = new Map<VirtualFile, ReturnType<typeof createPositionConverter>>()
+        for (const range of getSourceMapRanges(sourceMap.name, sourceMap.text, outfile.text)) {
+          const file = sample.files.find(i => i.filepath === range.source)
+          if (!file)
+            continue
+          if (!filesPc.has(file))
+            filesPc.set(file, createPositionConverter(getFileContent(file)))
+          const filePc = filesPc.get(file)!
+          const lineText = filePc.lines[range.sourceLine]
+          if (lineText === undefined)
+            continue
+          // The emitted code can come from the prepended or appended content, which is not in the sample
+          const prependLength = file.prepend?.length || 0
+          const index = filePc.posToIndex(range.sourceLine, range.sourceCharacter) - prependLength
+          if (index < 0 || index >= file.content.length)
+            continue
+          // Ranges without an end in the source are mapped with their emitted length, up to the end of the line
+          const lineEnd = filePc.posToIndex(range.sourceLine, 0) - prependLength + lineText.replace(/\r?\n$/, '').length
+          const start = file.offset + index
+          meta.emitMappings.push({
+            start: range.start,
+            length: range.length,
+            ...outfilePc.indexToPos(range.start),
+            source: {
+              filename: file.filename,
+              start,
+              length: Math.max(Math.min(range.sourceLength ?? range.length, lineEnd - index), 0),
+              ...samplePc.indexToPos(start),
+            },
+          })
+        }
+      }
+      // #endregion
+
       outputCode = outfile.text
       meta.extension = typesToExtension(getExtension(outfile.name))
       meta.removals.length = 0
       nodes.length = 0
+
+      // #region analyze the emitted file like a sample
+      if (meta.handbookOptions.analyzeEmit) {
+        const emitted = analyzeEmittedFile(outfile.name, outfile.text)
+        meta.virtualFiles.push(emitted.file)
+        nodes.push(...emitted.nodes)
+      }
+      // #endregion
     }
 
     if (!meta.handbookOptions.keepNotations) {
       const removed = removeCodeRanges(outputCode, meta.removals, nodes)
+      removeCodeRanges(outputCode, removed.removals, locations)
       outputCode = removed.code
       nodes = removed.nodes
       meta.removals = removed.removals
@@ -459,13 +1228,72 @@ export function createTwoslasher(createOptions: CreateTwoslashOptions = {}): Two
       ? pc.indexToPos
       : createPositionConverter(outputCode).indexToPos
 
+    // #region resolve locations, drop the ones that are cut
+    for (const location of locations) {
+      if (location.start >= 0)
+        Object.assign(location, indexToPos(location.start))
+    }
+    const isLocationVisible = (location: NodeLocation) => location.external || location.start >= 0
+    // #endregion
+
+    // #region resolve navigation trees, drop the items that are cut
+    const outputRemovals = meta.handbookOptions.keepNotations ? [] : meta.removals
+
+    function resolveNavigationSpan(file: VirtualFile, span: TextSpan): NavigationTreeSpan | undefined {
+      const fileStart = file.offset
+      const fileEnd = file.offset + file.content.length
+      const start = Math.max(span.start + file.offset - (file.prepend?.length || 0), fileStart)
+      const end = Math.min(start + span.length, fileEnd)
+      const range = end > start && mapRangeWithRemovals([start, end], outputRemovals)
+      if (!range)
+        return undefined
+      return {
+        start: range[0],
+        length: range[1] - range[0],
+        ...indexToPos(range[0]),
+      }
+    }
+
+    function resolveNavigationTree(file: VirtualFile, item: NavigationTree, isRoot = false): NavigationTreeItem | undefined {
+      // Items are dropped when their name (or start) is cut, containers that are partially cut are trimmed
+      if (!isRoot) {
+        const anchor = (item.nameSpan || item.spans[0]).start + file.offset - (file.prepend?.length || 0)
+        if (outputRemovals.some(([start, end]) => start <= anchor && anchor < end))
+          return undefined
+      }
+      return {
+        text: item.text,
+        kind: item.kind,
+        kindModifiers: item.kindModifiers,
+        spans: item.spans.map(span => resolveNavigationSpan(file, span)).filter(i => i !== undefined),
+        nameSpan: item.nameSpan && resolveNavigationSpan(file, item.nameSpan),
+        childItems: (item.childItems || []).map(child => resolveNavigationTree(file, child)).filter(i => i !== undefined),
+      }
+    }
+
+    for (const [file, tree] of navigationTrees)
+      meta.navigationTrees[file.filename] = resolveNavigationTree(file, tree, true)!
+    // #endregion
+
     const resolvedNodes = resolveNodePositions(nodes, indexToPos)
+      .filter((node) => {
+        if (node.type === 'definition') {
+          node.definitions = node.definitions.filter(isLocationVisible)
+          return node.definitions.length > 0
+        }
+        if (node.type === 'reference') {
+          node.references = node.references.filter(isLocationVisible)
+          return node.references.length > 0
+        }
+        if (node.type === 'error' && node.fixes) {
+          node.fixes = node.fixes
+            .map(fix => ({ ...fix, changes: fix.changes.filter(isLocationVisible) }))
+            .filter(fix => fix.changes.length > 0)
+        }
+        return true
+      })
 
-    // cleanup
-    for (const file of meta.virtualFiles)
-      env.createFile(file.filepath, '')
-    for (const file of Object.keys(extraFiles))
-      env.createFile(fsRoot + file, '')
+    cleanupFiles()
 
     return {
       code: outputCode,
@@ -490,6 +1318,21 @@ export function createTwoslasher(createOptions: CreateTwoslashOptions = {}): Two
       get tags() {
         return this.nodes.filter(i => i.type === 'tag') as any
       },
+      get definitions() {
+        return this.nodes.filter(i => i.type === 'definition') as any
+      },
+      get references() {
+        return this.nodes.filter(i => i.type === 'reference') as any
+      },
+      get signatures() {
+        return this.nodes.filter(i => i.type === 'signature') as any
+      },
+      get semantics() {
+        return this.nodes.filter(i => i.type === 'semantic') as any
+      },
+      get inlays() {
+        return this.nodes.filter(i => i.type === 'inlay') as any
+      },
     }
   }
 
@@ -561,6 +1404,18 @@ export function twoslasher(code: string, lang?: string, opts?: Partial<TwoslashO
   })(code, lang)
 }
 
+/**
+ * `@typescript/vfs` defaults to the node10 resolution, which can't be used with the node16 and nodenext modules
+ */
+function setModuleResolution(compilerOptions: CompilerOptions) {
+  if (compilerOptions.moduleResolution !== undefined)
+    return
+  if (compilerOptions.module === (100 satisfies ModuleKind.Node16))
+    compilerOptions.moduleResolution = 3 satisfies ModuleResolutionKind.Node16
+  else if (compilerOptions.module === (199 satisfies ModuleKind.NodeNext))
+    compilerOptions.moduleResolution = 99 satisfies ModuleResolutionKind.NodeNext
+}
+
 function diagnosticCategoryToErrorLevel(e: DiagnosticCategory): ErrorLevel | undefined {
   switch (e) {
     case 0:
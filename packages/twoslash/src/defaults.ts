@@ -16,8 +16,26 @@ export const defaultHandbookOptions: HandbookOptions = {
   noErrors: false,
   noErrorsCutted: false,
   noErrorValidation: false,
+  noUnusedErrors: false,
   noStaticSemanticInfo: false,
   showEmit: false,
   showEmittedFile: undefined,
+  analyzeEmit: false,
+  emittedFiles: false,
+  applyRefactor: undefined,
+  organizeImports: false,
   keepNotations: false,
+  definitions: false,
+  references: false,
+  semanticClassifications: false,
+  inlayHints: false,
+  codeFixes: false,
+  navigationTree: false,
+  completionDetails: false,
+  displayParts: false,
+  expandQueries: false,
+  typeTree: false,
+  assertTypes: false,
+  fileScopedFlags: false,
+  showPackageFiles: false,
 }
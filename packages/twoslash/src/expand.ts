@@ -0,0 +1,102 @@
+import type { ModifierFlags, Node, NodeFlags, SourceFile, SymbolFlags, Symbol as TsSymbol, Type, TypeChecker, TypeFlags, TypeFormatFlags } from 'typescript'
+
+type TS = typeof import('typescript')
+
+const formatFlags = 1 satisfies TypeFormatFlags.NoTruncation
+
+/**
+ * Get the symbol of the identifier at `position`, and the type it stands for:
+ * the declared type for type aliases and interfaces, the type of the value otherwise.
+ */
+export function getTypeAtPosition(ts: TS, checker: TypeChecker, sourceFile: SourceFile, position: number) {
+  const node = findIdentifier(sourceFile)
+  const symbol = node && checker.getSymbolAtLocation(node)
+  if (!node || !symbol)
+    return undefined
+
+  const isTypeDeclaration = !!(symbol.flags & ((524288 satisfies SymbolFlags.TypeAlias) | (64 satisfies SymbolFlags.Interface)))
+  const type = isTypeDeclaration
+    ? checker.getDeclaredTypeOfSymbol(symbol)
+    : checker.getTypeOfSymbolAtLocation(symbol, node)
+  return { symbol, type }
+
+  function findIdentifier(node: Node): Node | undefined {
+    if (ts.isIdentifier(node))
+      return node
+    return ts.forEachChild(node, child => child.getStart(sourceFile) <= position && position <= child.getEnd()
+      ? findIdentifier(child)
+      : undefined)
+  }
+}
+
+/**
+ * Print the type of the identifier at `position` fully evaluated,
+ * with mapped types resolved, intersections flattened and no truncation.
+ */
+export function getExpandedQueryText(ts: TS, checker: TypeChecker, sourceFile: SourceFile, position: number): string | undefined {
+  const target = getTypeAtPosition(ts, checker, sourceFile, position)
+  if (!target)
+    return undefined
+
+  const { symbol, type } = target
+  const name = symbol.getName()
+  if (symbol.flags & (524288 satisfies SymbolFlags.TypeAlias))
+    return `type ${name} = ${printType(type)}`
+  if (symbol.flags & (64 satisfies SymbolFlags.Interface))
+    return `interface ${name} ${printType(type)}`
+
+  return `${getKeyword(symbol)} ${name}: ${printType(type)}`
+
+  function getKeyword(symbol: TsSymbol) {
+    const declaration = symbol.valueDeclaration
+    if (declaration && ts.isVariableDeclaration(declaration)) {
+      const flags = ts.getCombinedNodeFlags(declaration)
+      if (flags & (2 satisfies NodeFlags.Const))
+        return 'const'
+      if (flags & (1 satisfies NodeFlags.Let))
+        return 'let'
+      return 'var'
+    }
+    if (declaration && ts.isParameter(declaration))
+      return '(parameter)'
+    if (symbol.flags & (4 satisfies SymbolFlags.Property))
+      return '(property)'
+    return '(symbol)'
+  }
+
+  function printType(type: Type): string {
+    // `boolean` and enums are unions as well, their names read better
+    if (type.isUnion() && !(type.flags & ((16 satisfies TypeFlags.Boolean) | (1024 satisfies TypeFlags.EnumLiteral))))
+      return type.types.map(printType).join(' | ')
+
+    if (!isObjectLike(type))
+      return checker.typeToString(type, undefined, formatFlags)
+
+    const members = [
+      ...checker.getIndexInfosOfType(type).map(info =>
+        `${info.isReadonly ? 'readonly ' : ''}[key: ${checker.typeToString(info.keyType)}]: ${checker.typeToString(info.type, undefined, formatFlags)};`,
+      ),
+      ...checker.getPropertiesOfType(type).map((property) => {
+        const readonly = isReadonlyProperty(ts, property) ? 'readonly ' : ''
+        const optional = property.flags & (16777216 satisfies SymbolFlags.Optional) ? '?' : ''
+        return `${readonly}${checker.symbolToString(property)}${optional}: ${checker.typeToString(checker.getTypeOfSymbol(property), undefined, formatFlags)};`
+      }),
+    ]
+    return members.length ? `{ ${members.join(' ')} }` : '{}'
+  }
+
+  function isObjectLike(type: Type) {
+    return !!(type.flags & ((524288 satisfies TypeFlags.Object) | (2097152 satisfies TypeFlags.Intersection)))
+      && !type.getCallSignatures().length
+      && !type.getConstructSignatures().length
+      && !checker.isArrayLikeType(type)
+  }
+}
+
+export function isReadonlyProperty(ts: TS, property: TsSymbol) {
+  // Properties produced by mapped types like `Readonly<T>` only carry the flag on the symbol links
+  const checkFlags: number = (ts as any).getCheckFlags?.(property) ?? 0
+  if (checkFlags & 8 /* CheckFlags.Readonly */)
+    return true
+  return !!property.declarations?.some(d => ts.getCombinedModifierFlags(d) & (8 satisfies ModifierFlags.Readonly))
+}
@@ -1,7 +1,7 @@
 import type { TwoslashReturnMeta } from './types'
 import { removeCodeRanges } from 'twoslash-protocol'
 import { flagKeys } from './flag-keys'
-import { reAnnonateMarkers, reConfigBoolean, reConfigValue } from './regexp'
+import { reAnnonateMarkers, reConfigBoolean, reConfigValue, reExpectType } from './regexp'
 import { findCutNotations } from './utils'
 
 /**
@@ -19,14 +19,19 @@ export function removeTwoslashNotations(code: string, customTags?: string[]): st
     ...flagKeys,
   ]
 
+  let assertTypes = false
   Array.from(code.matchAll(reConfigBoolean)).forEach((match) => {
     if (!tags.includes(match[1]))
       return
+    if (match[1] === 'assertTypes')
+      assertTypes = true
     meta.removals.push([match.index!, match.index! + match[0].length + 1])
   })
   Array.from(code.matchAll(reConfigValue)).forEach((match) => {
     if (!tags.includes(match[1]))
       return
+    if (match[1] === 'assertTypes')
+      assertTypes = match[2].trim() !== 'false'
     meta.removals.push([match.index!, match.index! + match[0].length + 1])
   })
 
@@ -35,6 +40,13 @@ export function removeTwoslashNotations(code: string, customTags?: string[]): st
     const index = match.index!
     meta.removals.push([index, index + match[0].length + 1])
   })
+  // `$ExpectType` comments are only notations in samples with `@assertTypes`
+  if (assertTypes) {
+    Array.from(code.matchAll(reExpectType)).forEach((match) => {
+      const index = match.index!
+      meta.removals.push([index, index + match[0].length + 1])
+    })
+  }
 
   return removeCodeRanges(code, meta.removals).code
 }
@@ -9,31 +9,41 @@ export const flagKeys = [
   'allowUnreachableCode',
   'allowUnusedLabels',
   'alwaysStrict',
+  'analyzeEmit',
+  'applyRefactor',
+  'assertTypes',
   'assumeChangesOnlyAffectDirectDependencies',
   'baseUrl',
   'build',
   'charset',
   'checkJs',
+  'codeFixes',
+  'completionDetails',
   'composite',
   'customConditions',
   'declaration',
   'declarationDir',
   'declarationMap',
+  'definitions',
   'diagnostics',
   'disableReferencedProjectLoad',
   'disableSizeLimit',
   'disableSolutionSearching',
   'disableSourceOfProjectReferenceRedirect',
+  'displayParts',
   'downlevelIteration',
   'emitBOM',
   'emitDeclarationOnly',
   'emitDecoratorMetadata',
+  'emittedFiles',
   'errors',
   'esModuleInterop',
   'exactOptionalPropertyTypes',
+  'expandQueries',
   'experimentalDecorators',
   'explainFiles',
   'extendedDiagnostics',
+  'fileScopedFlags',
   'forceConsistentCasingInFileNames',
   'generateCpuProfile',
   'generateTrace',
@@ -44,6 +54,7 @@ export const flagKeys = [
   'importsNotUsedAsValues',
   'incremental',
   'init',
+  'inlayHints',
   'inlineSourceMap',
   'inlineSources',
   'isolatedModules',
@@ -64,6 +75,7 @@ export const flagKeys = [
   'moduleDetection',
   'moduleResolution',
   'moduleSuffixes',
+  'navigationTree',
   'newLine',
   'noEmit',
   'noEmitHelpers',
@@ -84,8 +96,10 @@ export const flagKeys = [
   'noStaticSemanticInfo',
   'noStrictGenericChecks',
   'noUncheckedIndexedAccess',
+  'noUnusedErrors',
   'noUnusedLocals',
   'noUnusedParameters',
+  'organizeImports',
   'out',
   'outDir',
   'outFile',
@@ -98,15 +112,18 @@ export const flagKeys = [
   'pretty',
   'project',
   'reactNamespace',
+  'references',
   'removeComments',
   'resolveJsonModule',
   'resolvePackageJsonExports',
   'resolvePackageJsonImports',
   'rootDir',
   'rootDirs',
+  'semanticClassifications',
   'showConfig',
   'showEmit',
   'showEmittedFile',
+  'showPackageFiles',
   'skipDefaultLibCheck',
   'skipLibCheck',
   'sourceMap',
@@ -123,6 +140,7 @@ export const flagKeys = [
   'traceResolution',
   'tsBuildInfoFile',
   'typeRoots',
+  'typeTree',
   'types',
   'useDefineForClassFields',
   'useUnknownInCatchVariables',
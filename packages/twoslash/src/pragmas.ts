@@ -0,0 +1,46 @@
+import type { CompilerOptions, JsxEmit } from 'typescript'
+import type { VirtualFile } from './types'
+import { TwoslashError } from './error'
+
+/**
+ * Compiler options TypeScript reads from the pragmas of each file, turned into the pragma comment
+ */
+const filePragmas: Record<string, (value: any, file: VirtualFile) => string> = {
+  // `checkJs` only applies to JavaScript files, `@ts-nocheck` would hide the errors of TypeScript files
+  checkJs: (value, file) => {
+    if (!/^[cm]?jsx?$/.test(file.extension))
+      return ''
+    return value ? '// @ts-check\n' : '// @ts-nocheck\n'
+  },
+  jsx: (value: JsxEmit, file) => {
+    if (value === (2 satisfies JsxEmit.React))
+      return '/** @jsxRuntime classic */\n'
+    if (value === (4 satisfies JsxEmit.ReactJSX) || value === (5 satisfies JsxEmit.ReactJSXDev))
+      return '/** @jsxRuntime automatic */\n'
+    throw new TwoslashError(
+      `Unsupported file scoped flags`,
+      `The @jsx flag scoped to ${file.filename} can only be react, react-jsx or react-jsxdev.`,
+      `TypeScript has no pragma for the other modes, move the flag before the first @filename to apply it to all files.`,
+    )
+  },
+  jsxFactory: value => `/** @jsx ${value} */\n`,
+  jsxFragmentFactory: value => `/** @jsxFrag ${value} */\n`,
+  jsxImportSource: value => `/** @jsxImportSource ${value} */\n`,
+}
+
+/**
+ * Get the pragmas to prepend to a file, to apply the compiler options scoped to it
+ */
+export function getFileScopedPragmas(file: VirtualFile, options: CompilerOptions) {
+  const unsupported = Object.keys(options).filter(name => !(name in filePragmas))
+  if (unsupported.length) {
+    throw new TwoslashError(
+      `Unsupported file scoped flags`,
+      `The following compiler options can't be scoped to ${file.filename}:\n${unsupported.map(i => `@${i}`).join(', ')}\n\nTypeScript only reads ${Object.keys(filePragmas).map(i => `@${i}`).join(', ')} from each file.`,
+      `Move the flags before the first @filename to apply them to all files. For the module format of a file, use the .mts or .cts extension.`,
+    )
+  }
+  return Object.entries(options)
+    .map(([name, value]) => filePragmas[name](value, file))
+    .join('')
+}
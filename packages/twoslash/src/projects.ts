@@ -0,0 +1,62 @@
+import type { VirtualTypeScriptEnvironment } from '@typescript/vfs'
+import type { CompilerOptions, CustomTransformers, JsxEmit, LanguageServiceHost, ModuleResolutionKind, ParsedCommandLine, ProjectReference, System } from 'typescript'
+import { createVirtualLanguageServiceHost } from '@typescript/vfs'
+
+type TS = typeof import('typescript')
+
+/**
+ * The defaults of `createVirtualTypeScriptEnvironment`, so the projects behave like the other samples
+ */
+const vfsCompilerOptions: CompilerOptions = {
+  jsx: 2 satisfies JsxEmit.React,
+  esModuleInterop: true,
+  suppressOutputPathCheck: true,
+  moduleResolution: 2 satisfies ModuleResolutionKind.Node10,
+}
+
+/** Whether the file is a `tsconfig.json`, which makes its folder a project */
+export function isTsconfigFile(filename: string) {
+  return /(?:^|\/)tsconfig\.json$/.test(filename)
+}
+
+/**
+ * Create an environment like `createVirtualTypeScriptEnvironment` does, for a project of the sample with its references.
+ * The imports from the referenced projects are resolved to their sources, as editors do.
+ */
+export function createProjectEnvironment(
+  ts: TS,
+  system: System,
+  compilerOptions: CompilerOptions,
+  references: readonly ProjectReference[],
+  getParsedCommandLine: (configPath: string) => ParsedCommandLine | undefined,
+  customTransformers?: CustomTransformers,
+): VirtualTypeScriptEnvironment {
+  const options = {
+    ...ts.getDefaultCompilerOptions(),
+    ...vfsCompilerOptions,
+    ...compilerOptions,
+  }
+  const { languageServiceHost, updateFile, deleteFile } = createVirtualLanguageServiceHost(system, [], options, ts, customTransformers)
+  const languageService = ts.createLanguageService({
+    ...languageServiceHost,
+    getProjectReferences: () => references,
+    getParsedCommandLine,
+    useSourceOfProjectReferenceRedirect: () => true,
+  } as LanguageServiceHost)
+
+  const getSourceFile = (fileName: string) => languageService.getProgram()?.getSourceFile(fileName)
+  const createFile = (fileName: string, content: string) => updateFile(ts.createSourceFile(fileName, content, options.target!, false))
+
+  return {
+    sys: system,
+    languageService,
+    getSourceFile,
+    createFile,
+    updateFile: createFile,
+    deleteFile: (fileName) => {
+      const sourceFile = getSourceFile(fileName)
+      if (sourceFile)
+        deleteFile(sourceFile)
+    },
+  }
+}
@@ -8,10 +8,17 @@ export {
 
 export * from './types'
 
+export {
+  fixErrorsAnnotation,
+  setErrorsAnnotation,
+  updateTwoslashAnnotations,
+} from './update'
+
 export {
   findCutNotations,
   findFlagNotations,
   findQueryMarkers,
+  findTypeExpectations,
   getObjectHash,
 } from './utils'
 
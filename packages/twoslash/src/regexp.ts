@@ -1,6 +1,7 @@
 export const reConfigBoolean = /^\/\/\s?@(\w+)$/gm
 export const reConfigValue = /^\/\/\s?@(\w+):\s?(.+)$/gm
-export const reAnnonateMarkers = /^\s*\/\/\s*\^(\?|\||\^+)( .*)?$/gm
+export const reAnnonateMarkers = /^\s*\/\/\s*\^(\?\?|[!(?|]|\^+)( .*)?$/gm
+export const reExpectType = /^[\t\v\f ]*\/\/\s*\$ExpectType (.+)$/gm
 
 export const reCutBefore = /^[\t\v\f ]*\/\/\s?---cut(-before)?---\r?\n/gm
 export const reCutAfter = /^[\t\v\f ]*\/\/\s?---cut-after---$/gm
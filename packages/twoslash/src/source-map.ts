@@ -0,0 +1,101 @@
+const base64Chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+export interface SourceMapRange {
+  /** Index in the generated code */
+  start: number
+  /** Length in the generated code */
+  length: number
+  /** Path of the source file, resolved against the location of the map */
+  source: string
+  /** 0-indexed line in the source file */
+  sourceLine: number
+  /** 0-indexed character in the source file */
+  sourceCharacter: number
+  /** Length in the source file, `undefined` when the next segment does not tell where it ends */
+  sourceLength?: number
+}
+
+type Segment = [generatedCharacter: number, source?: number, sourceLine?: number, sourceCharacter?: number]
+
+/**
+ * Decode the VLQ `mappings` of a source map into the segments of each generated line,
+ * with the source positions resolved from their relative values
+ */
+function decodeMappings(mappings: string): Segment[][] {
+  const lines: Segment[][] = []
+  const state = [0, 0, 0, 0]
+
+  for (const line of mappings.split(';')) {
+    const segments: Segment[] = []
+    state[0] = 0
+    for (const text of line.split(',')) {
+      if (!text)
+        continue
+      const values: number[] = []
+      let value = 0
+      let shift = 0
+      for (const char of text) {
+        const digit = base64Chars.indexOf(char)
+        value += (digit & 31) << shift
+        if (digit & 32) {
+          shift += 5
+          continue
+        }
+        values.push(value & 1 ? -(value >>> 1) : value >>> 1)
+        value = 0
+        shift = 0
+      }
+      for (let i = 0; i < Math.min(values.length, 4); i++)
+        state[i] += values[i]
+      segments.push(values.length >= 4 ? [state[0], state[1], state[2], state[3]] : [state[0]])
+    }
+    lines.push(segments)
+  }
+
+  return lines
+}
+
+function resolvePath(from: string, path: string) {
+  const parts = path.startsWith('/') ? [] : from.split('/').slice(0, -1)
+  for (const part of path.split('/')) {
+    if (part === '..')
+      parts.pop()
+    else if (part && part !== '.')
+      parts.push(part)
+  }
+  return (from.startsWith('/') ? '/' : '') + parts.filter(Boolean).join('/')
+}
+
+/**
+ * Get the ranges of the generated code which come from a source file, from the source map emitted along it.
+ * A range goes until the next segment of the line, or the end of the line.
+ */
+export function getSourceMapRanges(mapFilename: string, mapText: string, generated: string): SourceMapRange[] {
+  const map = JSON.parse(mapText) as { sources: string[], sourceRoot?: string, mappings: string }
+  const sources = map.sources.map(source => resolvePath(mapFilename, (map.sourceRoot ? `${map.sourceRoot.replace(/\/$/, '')}/` : '') + source))
+  const lines = generated.split('\n')
+  const ranges: SourceMapRange[] = []
+
+  let lineStart = 0
+  decodeMappings(map.mappings).forEach((segments, index) => {
+    const lineLength = lines[index]?.replace(/\r$/, '').length ?? 0
+    segments.forEach(([character, source, sourceLine, sourceCharacter], i) => {
+      const next = segments[i + 1] as Segment | undefined
+      const end = Math.min(next ? next[0] : lineLength, lineLength)
+      if (source === undefined || end <= character)
+        return
+      const isNextInLine = next && next[1] === source && next[2] === sourceLine && next[3]! > sourceCharacter!
+      ranges.push({
+        start: lineStart + character,
+        length: end - character,
+        source: sources[source],
+        sourceLine: sourceLine!,
+        sourceCharacter: sourceCharacter!,
+        sourceLength: isNextInLine ? next[3]! - sourceCharacter! : undefined,
+      })
+    })
+    lineStart += (lines[index]?.length ?? 0) + 1
+  })
+
+  return ranges
+}
@@ -0,0 +1,79 @@
+import type { CompilerOptions, Diagnostic, ParseConfigHost, System } from 'typescript'
+import { TwoslashError } from './error'
+
+type TS = typeof import('typescript')
+
+/**
+ * Options about where and whether to emit, they would prevent `showEmit` from working
+ */
+const ignoredCompilerOptions = [
+  'configFilePath',
+  'declarationDir',
+  'incremental',
+  'noEmit',
+  'outDir',
+  'rootDir',
+  'tsBuildInfoFile',
+]
+
+/**
+ * Load the compiler options of a tsconfig.json with TypeScript's config parsing, following the `extends` chain.
+ * `configPath` is relative to `root`, or `true` to look it up from `root` upwards.
+ */
+export function loadTsconfigCompilerOptions(ts: TS, system: System, configPath: string | true, root: string): CompilerOptions {
+  const filepath = configPath === true
+    ? ts.findConfigFile(root, system.fileExists)
+    : resolvePath(configPath.replace(/\\/g, '/'), root)
+
+  if (!filepath || !system.fileExists(filepath)) {
+    throw new TwoslashError(
+      `Could not find the tsconfig`,
+      configPath === true
+        ? `There is no tsconfig.json in ${root} or its parent directories.`
+        : `The file ${filepath} does not exist.`,
+      `Check the 'tsconfig' option of createTwoslasher.`,
+    )
+  }
+
+  const { options, errors } = parseTsconfig(ts, system, system.readFile(filepath)!, filepath)
+  if (errors.length) {
+    throw new TwoslashError(
+      `Invalid tsconfig`,
+      `TypeScript could not parse ${filepath}:\n${errors.map(e => `[${e.code}] ${ts.flattenDiagnosticMessageText(e.messageText, '\n')}`).join('\n')}`,
+      `Fix the errors in the config file, or in the files it extends.`,
+    )
+  }
+  return options
+}
+
+/**
+ * Parse the compiler options and the project references from the content of a tsconfig, relative paths are resolved against the config file.
+ * The errors of the file itself have their `start` offsets in `content`.
+ */
+export function parseTsconfig(ts: TS, host: Pick<System, 'useCaseSensitiveFileNames' | 'fileExists' | 'readFile'>, content: string, filepath: string) {
+  const parseHost: ParseConfigHost = {
+    useCaseSensitiveFileNames: host.useCaseSensitiveFileNames,
+    fileExists: host.fileExists,
+    readFile: host.readFile,
+    // Only the options are used, so we don't need to scan for the files to include
+    readDirectory: () => [],
+  }
+  const source = ts.parseJsonText(filepath, content)
+  const parsed = ts.parseJsonSourceFileConfigFileContent(source, parseHost, filepath.slice(0, filepath.lastIndexOf('/')), undefined, filepath)
+  const errors = [
+    // Syntax errors are not part of the parsed result
+    ...(source as unknown as { parseDiagnostics: Diagnostic[] }).parseDiagnostics,
+    ...parsed.errors.filter(e => e.code !== 18003 /* No inputs were found in config file */),
+  ]
+
+  const options = { ...parsed.options }
+  for (const key of ignoredCompilerOptions)
+    delete options[key]
+  return { options, errors, references: parsed.projectReferences || [], source }
+}
+
+function resolvePath(path: string, root: string) {
+  if (path.startsWith('/') || /^[a-z]:\//i.test(path))
+    return path
+  return `${root.replace(/\/$/, '')}/${path.replace(/^\.\//, '')}`
+}
@@ -0,0 +1,162 @@
+import type { TypeTree, TypeTreeProperty, TypeTreeSignature } from 'twoslash-protocol'
+import type { ObjectFlags, ObjectType, Signature, SymbolFlags, Symbol as TsSymbol, Type, TypeChecker, TypeFlags, TypeReference, UnionOrIntersectionType } from 'typescript'
+import { isReadonlyProperty } from './expand'
+
+type TS = typeof import('typescript')
+
+export interface TypeTreeLimits {
+  /** How many levels of children to walk into */
+  depth: number
+  /** Maximum number of entries in each list of children */
+  items: number
+  /** Maximum number of types described in the whole tree */
+  size: number
+}
+
+const primitiveFlags = (1 satisfies TypeFlags.Any)
+  | (2 satisfies TypeFlags.Unknown)
+  | (4 satisfies TypeFlags.String)
+  | (8 satisfies TypeFlags.Number)
+  | (16 satisfies TypeFlags.Boolean)
+  | (64 satisfies TypeFlags.BigInt)
+  | (4096 satisfies TypeFlags.ESSymbol)
+  | (16384 satisfies TypeFlags.Void)
+  | (32768 satisfies TypeFlags.Undefined)
+  | (65536 satisfies TypeFlags.Null)
+  | (131072 satisfies TypeFlags.Never)
+  | (67108864 satisfies TypeFlags.NonPrimitive)
+
+export const defaultTypeTreeLimits: TypeTreeLimits = {
+  depth: 3,
+  items: 50,
+  size: 500,
+}
+
+/**
+ * Describe a type as a plain object tree, walking into its children until one of the limits is reached
+ */
+export function getTypeTree(ts: TS, checker: TypeChecker, type: Type, limits: TypeTreeLimits): TypeTree {
+  let size = 0
+  return describe(type, 0)
+
+  function describe(type: Type, depth: number): TypeTree {
+    size += 1
+    const tree: TypeTree = {
+      text: checker.typeToString(type),
+      kind: getKind(type),
+    }
+    if (!hasChildren(type, tree.kind))
+      return tree
+    if (depth >= limits.depth || size >= limits.size) {
+      tree.truncated = true
+      return tree
+    }
+
+    const walk = <T, R>(items: readonly T[], fn: (item: T) => R): R[] => {
+      if (items.length > limits.items)
+        tree.truncated = true
+      const result: R[] = []
+      for (const item of items.slice(0, limits.items)) {
+        if (size >= limits.size) {
+          tree.truncated = true
+          break
+        }
+        result.push(fn(item))
+      }
+      return result
+    }
+
+    switch (tree.kind) {
+      case 'union':
+      case 'intersection':
+        tree.types = walk((type as UnionOrIntersectionType).types, t => describe(t, depth + 1))
+        break
+      case 'array':
+      case 'tuple':
+        tree.typeArguments = walk(checker.getTypeArguments(type as TypeReference), t => describe(t, depth + 1))
+        break
+      case 'function':
+        tree.signatures = walk(type.getCallSignatures(), s => describeSignature(s, depth + 1))
+        break
+      case 'object': {
+        const typeArguments = getTypeArguments(type)
+        if (typeArguments.length)
+          tree.typeArguments = walk(typeArguments, t => describe(t, depth + 1))
+        tree.properties = walk(checker.getPropertiesOfType(type), p => describeProperty(p, depth + 1))
+        break
+      }
+    }
+    return tree
+  }
+
+  function describeProperty(property: TsSymbol, depth: number): TypeTreeProperty {
+    const result: TypeTreeProperty = {
+      name: checker.symbolToString(property),
+      type: describe(checker.getTypeOfSymbol(property), depth),
+    }
+    if (property.flags & (16777216 satisfies SymbolFlags.Optional))
+      result.optional = true
+    if (isReadonlyProperty(ts, property))
+      result.readonly = true
+    return result
+  }
+
+  function describeSignature(signature: Signature, depth: number): TypeTreeSignature {
+    return {
+      text: checker.signatureToString(signature),
+      parameters: signature.getParameters().map((parameter) => {
+        const declaration = parameter.valueDeclaration
+        return {
+          name: parameter.getName(),
+          ...(declaration && ts.isParameter(declaration) && (declaration.questionToken || declaration.initializer) ? { optional: true } : {}),
+          type: describe(checker.getTypeOfSymbol(parameter), depth),
+        }
+      }),
+      returnType: describe(signature.getReturnType(), depth),
+    }
+  }
+
+  function getKind(type: Type): TypeTree['kind'] {
+    if (type.isUnion() && !(type.flags & (16 satisfies TypeFlags.Boolean)))
+      return 'union'
+    if (type.isIntersection())
+      return 'intersection'
+    if (type.isLiteral() || type.flags & ((512 satisfies TypeFlags.BooleanLiteral) | (1024 satisfies TypeFlags.EnumLiteral)))
+      return 'literal'
+    if (type.flags & (262144 satisfies TypeFlags.TypeParameter))
+      return 'typeParameter'
+    if (checker.isTupleType(type))
+      return 'tuple'
+    if (checker.isArrayType(type))
+      return 'array'
+    if (type.flags & (524288 satisfies TypeFlags.Object)) {
+      if (type.getCallSignatures().length && !checker.getPropertiesOfType(type).length)
+        return 'function'
+      return 'object'
+    }
+    if (type.flags & primitiveFlags)
+      return 'primitive'
+    return 'other'
+  }
+
+  function hasChildren(type: Type, kind: TypeTree['kind']) {
+    switch (kind) {
+      case 'union':
+      case 'intersection':
+      case 'array':
+      case 'tuple':
+      case 'function':
+        return true
+      case 'object':
+        return checker.getPropertiesOfType(type).length > 0 || getTypeArguments(type).length > 0
+      default:
+        return false
+    }
+  }
+
+  function getTypeArguments(type: Type) {
+    return type.flags & (524288 satisfies TypeFlags.Object) && (type as ObjectType).objectFlags & (4 satisfies ObjectFlags.Reference)
+      ? checker.getTypeArguments(type as TypeReference)
+      : []
+  }
+}
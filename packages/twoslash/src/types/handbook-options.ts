@@ -16,6 +16,12 @@ export interface HandbookOptions {
    * Declare that you don't need to validate that errors have corresponding annotations, defaults to false
    */
   noErrorValidation: boolean
+  /**
+   * Report error codes listed in `errors` that are not produced by the sample, so stale annotations don't stay around forever.
+   * This will be enabled by default in the next major version.
+   * @default false
+   */
+  noUnusedErrors: boolean
   /**
    * Whether to disable the pre-cache of LSP calls for interesting identifiers, defaults to false
    */
@@ -30,6 +36,28 @@ export interface HandbookOptions {
    * means when you just use `showEmit` above it shows the transpiled JS.
    */
   showEmittedFile?: string
+  /**
+   * Must be used with showEmit, adds the emitted file to the environment as a virtual file,
+   * so its hovers and diagnostics are available like any other sample.
+   * @default false
+   */
+  analyzeEmit: boolean
+  /**
+   * Collect all the files emitted by TypeScript into `meta.emittedFiles`, the output code stays the source.
+   * Set a glob like `*.{js,d.ts}` to only collect the matching files, patterns without a slash match the file names.
+   * @default false
+   */
+  emittedFiles: boolean | string
+
+  /**
+   * Replaces the output with the result of applying a refactor on the range highlighted with `^^^`,
+   * matched by the description or the name of the refactor, e.g. `Extract to function`
+   */
+  applyRefactor?: string
+  /**
+   * Replaces the output with the result of organizing the imports
+   */
+  organizeImports: boolean
 
   /**
    * Do not remove twoslash notations from output code, the nodes will have the position of the input code.
@@ -41,4 +69,77 @@ export interface HandbookOptions {
    * @default false
    */
   noErrorsCutted: boolean
+  /**
+   * Emit `definition` nodes for identifiers, pointing to where they are declared.
+   * @default false
+   */
+  definitions: boolean
+  /**
+   * Emit `reference` nodes for identifiers, listing the other places the same symbol is used.
+   * @default false
+   */
+  references: boolean
+  /**
+   * Emit `semantic` nodes from TypeScript's semantic classifications, for type-aware highlighting.
+   * @default false
+   */
+  semanticClassifications: boolean
+  /**
+   * Emit `inlay` nodes for inferred types, parameter names at call sites and enum values.
+   * @default false
+   */
+  inlayHints: boolean
+  /**
+   * Attach the quick fixes suggested by TypeScript to `error` nodes.
+   * @default false
+   */
+  codeFixes: boolean
+  /**
+   * Collect the navigation tree (classes, functions, members, etc.) of each file into `meta.navigationTrees`.
+   * @default false
+   */
+  navigationTree: boolean
+  /**
+   * Sort completions the same way editors do, and attach the signature and docs to the entries.
+   *
+   * Setting a number to only fetch the details for the first N entries.
+   * @default false
+   */
+  completionDetails: boolean | number
+  /**
+   * Keep the structured display parts, the kind and the modifiers of the symbol on `hover` and `query` nodes.
+   * @default false
+   */
+  displayParts: boolean
+  /**
+   * Print the fully evaluated type for every `^?` query, as if they were written as `^??`.
+   * @default false
+   */
+  expandQueries: boolean
+  /**
+   * Attach a JSON serializable tree describing the structure of the type to `hover` and `query` nodes,
+   * so renderers can let readers expand object members, union constituents and type arguments.
+   *
+   * Setting a number to limit how deep the tree goes, defaults to 3 levels.
+   * @default false
+   */
+  typeTree: boolean | number
+  /**
+   * Treat the samples as type tests: compare the types of `^? type` queries and `// $ExpectType type` comments
+   * with the expected types, ignoring whitespaces, and throw on mismatches.
+   * @default false
+   */
+  assertTypes: boolean
+  /**
+   * Scope the compiler option flags after a `// @filename:` line to that file, instead of the whole sample.
+   * Only the options TypeScript reads from file pragmas are supported: `checkJs`, `jsx`, `jsxFactory`, `jsxFragmentFactory` and `jsxImportSource`.
+   * @default false
+   */
+  fileScopedFlags: boolean
+  /**
+   * Show the virtual `node_modules/*` and `package.json` files in the output.
+   * They take part in the module resolution either way.
+   * @default false
+   */
+  showPackageFiles: boolean
 }
@@ -2,6 +2,7 @@ import type { VirtualTypeScriptEnvironment } from '@typescript/vfs'
 import type { NodeWithoutPosition } from 'twoslash-protocol'
 import type { CompilerOptions, CustomTransformers } from 'typescript'
 import type { HandbookOptions } from './handbook-options'
+import type { TwoslashFunction } from './instance'
 import type { TwoslashReturnMeta } from './returns'
 
 export type TS = typeof import('typescript')
@@ -20,7 +21,7 @@ export interface TwoslashOptions extends CreateTwoslashOptions, TwoslashExecuteO
 /**
  * Options for twoslash instance
  */
-export interface TwoslashExecuteOptions extends Partial<Pick<TwoslashReturnMeta, 'positionQueries' | 'positionCompletions' | 'positionHighlights'>> {
+export interface TwoslashExecuteOptions extends Partial<Pick<TwoslashReturnMeta, 'positionQueries' | 'positionCompletions' | 'positionHighlights' | 'positionSignatures' | 'positionExpandedQueries' | 'positionErrorExpectations' | 'positionTypeExpectations'>> {
   /**
    * Allows setting any of the handbook options from outside the function, useful if you don't want LSP identifiers
    */
@@ -81,6 +82,15 @@ export interface CreateTwoslashOptions extends TwoslashExecuteOptions {
    */
   vfsRoot?: string
 
+  /**
+   * Load the compiler options from a tsconfig.json, following its `extends` chain.
+   * A path relative to `vfsRoot`, or `true` to look it up from `vfsRoot` upwards.
+   *
+   * The options are applied on top of the default compiler options, and below the `compilerOptions` option and the inline flags.
+   * Options about emitting, like `noEmit` or `outDir`, are ignored.
+   */
+  tsconfig?: string | true
+
   /**
    * Cache the ts envs based on compiler options, defaults to true
    */
@@ -93,3 +103,27 @@ export interface CreateTwoslashOptions extends TwoslashExecuteOptions {
    */
   fsCache?: boolean
 }
+
+/**
+ * Options for `updateTwoslashAnnotations`
+ */
+export interface UpdateTwoslashAnnotationsOptions extends TwoslashExecuteOptions {
+  /**
+   * The Twoslash instance to run the sample with, e.g. from `createTwoslasher()`
+   */
+  twoslasher: TwoslashFunction
+
+  /**
+   * Write the current types after the `^?` and `^??` markers
+   *
+   * @default true
+   */
+  queries?: boolean
+
+  /**
+   * Regenerate the `// @errors` flag with the error codes actually produced
+   *
+   * @default true
+   */
+  errors?: boolean
+}
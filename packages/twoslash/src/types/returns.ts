@@ -1,4 +1,4 @@
-import type { NodeCompletion, NodeError, NodeHighlight, NodeHover, NodeQuery, NodeTag, Range, TwoslashGenericResult } from 'twoslash-protocol'
+import type { NodeCompletion, NodeDefinition, NodeError, NodeHighlight, NodeHover, NodeInlay, NodeLocation, NodeQuery, NodeReference, NodeSemantic, NodeSignature, NodeStartLength, NodeTag, Position, Range, TwoslashGenericResult, TwoslashNode } from 'twoslash-protocol'
 import type { CompilerOptions } from 'typescript'
 import type { HandbookOptions } from './handbook-options'
 
@@ -14,6 +14,11 @@ export interface TwoslashReturn extends TwoslashGenericResult {
   get highlights(): NodeHighlight[]
   get hovers(): NodeHover[]
   get tags(): NodeTag[]
+  get definitions(): NodeDefinition[]
+  get references(): NodeReference[]
+  get signatures(): NodeSignature[]
+  get semantics(): NodeSemantic[]
+  get inlays(): NodeInlay[]
 }
 
 export interface TwoslashReturnMeta {
@@ -45,14 +50,66 @@ export interface TwoslashReturnMeta {
    * Positions of queries in the code
    */
   positionQueries: number[]
+  /**
+   * Positions of expanded queries (`^??`) in the code
+   */
+  positionExpandedQueries: number[]
   /**
    * Positions of completions in the code
    */
   positionCompletions: number[]
+  /**
+   * Positions of signature help queries in the code
+   */
+  positionSignatures: number[]
   /**
    * Positions of errors in the code
    */
   positionHighlights: [start: number, end: number, text?: string][]
+  /**
+   * Positions of the errors expected with `^!`, with the expected code or message fragment
+   */
+  positionErrorExpectations: [position: number, expected: string][]
+  /**
+   * Types expected by `^? type` markers and `// $ExpectType type` comments
+   */
+  positionTypeExpectations: [position: number, expected: string, notation: '^?' | '^??' | '$ExpectType'][]
+  /**
+   * Codes of all the errors of the sample, as checked against `@errors`.
+   * Unlike the error nodes, it includes the errors in cut or hidden code
+   */
+  errorCodes: number[]
+  /**
+   * The navigation trees of the virtual files, keyed by filename.
+   * Only available with the `navigationTree` handbook option
+   */
+  navigationTrees: Record<string, NavigationTreeItem>
+  /**
+   * The files emitted by TypeScript for the sample.
+   * Only available with the `emittedFiles` handbook option
+   */
+  emittedFiles: TwoslashEmittedFile[]
+  /**
+   * Ranges of the emitted code, linked to the ranges of the sample they come from.
+   * Only available with `showEmit`, when the source map of the shown file is emitted with `sourceMap` or `declarationMap`
+   */
+  emitMappings: TwoslashEmitMapping[]
+}
+
+export interface TwoslashEmitMapping extends NodeStartLength, Position {
+  /** The range in the sample, positioned in the code as it would be output without `showEmit` */
+  source: NodeLocation
+}
+
+export interface TwoslashEmittedFile {
+  /** Path of the file, relative to the root of the sample, e.g. `index.d.ts` */
+  name: string
+  /** Content of the file */
+  text: string
+  /** Extension of the file, as `meta.extension` with `showEmit` */
+  extension: string
+  /** Hovers and errors of the file, with positions in its text. Empty for the source maps */
+  nodes: TwoslashNode[]
 }
 
 export interface ParsedFlagNotation {
@@ -63,6 +120,22 @@ export interface ParsedFlagNotation {
   end: number
 }
 
+export interface NavigationTreeSpan extends NodeStartLength, Position {}
+
+export interface NavigationTreeItem {
+  /** Name of the item, e.g. the name of a class or a function */
+  text: string
+  /** Kind of the item, e.g. `class`, `function` or `method` */
+  kind: string
+  /** Comma separated modifiers of the item, e.g. `export,declare` */
+  kindModifiers: string
+  /** Ranges of the item in the output code */
+  spans: NavigationTreeSpan[]
+  /** Range of the name of the item in the output code */
+  nameSpan?: NavigationTreeSpan
+  childItems: NavigationTreeItem[]
+}
+
 export interface VirtualFile {
   offset: number
   filename: string
@@ -72,4 +145,12 @@ export interface VirtualFile {
   supportLsp?: boolean
   prepend?: string
   append?: string
+  /**
+   * Compiler options scoped to this file with `fileScopedFlags`, applied as pragmas
+   */
+  compilerOptions?: CompilerOptions
+  /**
+   * The `tsconfig.json` of the project this file belongs to, when the sample has nested projects
+   */
+  project?: string
 }
@@ -0,0 +1,112 @@
+import type { NodeStartLength } from 'twoslash-protocol'
+import type { TwoslashReturn, UpdateTwoslashAnnotationsOptions } from './types'
+import { createPositionConverter, removeCodeRanges } from 'twoslash-protocol'
+import { flagKeys } from './flag-keys'
+import { reAnnonateMarkers, reConfigBoolean, reConfigValue } from './regexp'
+import { applyCodeEdits, findQueryMarkers, getQuickInfoType } from './utils'
+
+type CodeEdit = [start: number, end: number, text: string]
+
+/**
+ * Run Twoslash on a sample and return the *input* rewritten with the fresh results:
+ * the current types are written after the query markers, and `// @errors` lists the codes actually produced.
+ */
+export function updateTwoslashAnnotations(code: string, extension: string | undefined, options: UpdateTwoslashAnnotationsOptions): string {
+  const { twoslasher, queries = true, errors = true, ...executeOptions } = options
+
+  const result = twoslasher(code, extension, {
+    ...executeOptions,
+    handbookOptions: {
+      ...executeOptions.handbookOptions,
+      // Stale annotations are what we are about to fix
+      noErrorValidation: true,
+      assertTypes: false,
+    },
+  })
+
+  let output = queries
+    ? applyCodeEdits(code, getQueryEdits(code, result))
+    : code
+  if (errors && result.meta.handbookOptions.noErrors !== true)
+    output = setErrorsAnnotation(output, result.meta.errorCodes)
+
+  return output
+}
+
+/**
+ * Run Twoslash on a sample and return it with the `// @errors` flag listing exactly the error codes produced:
+ * the flag is inserted when missing, codes that no longer occur are removed, and so is the flag when there are no errors.
+ * The errors in cut or hidden code count as well, they still need to be expected.
+ */
+export function fixErrorsAnnotation(code: string, extension: string | undefined, options: Omit<UpdateTwoslashAnnotationsOptions, 'queries' | 'errors'>): string {
+  return updateTwoslashAnnotations(code, extension, { ...options, queries: false, errors: true })
+}
+
+/**
+ * Set the `// @errors` flag of a sample to the given error codes, without running Twoslash
+ */
+export function setErrorsAnnotation(code: string, codes: (string | number)[]): string {
+  const unique = Array.from(new Set(codes))
+  const line = unique.length ? `// @errors: ${unique.join(' ')}\n` : ''
+
+  const flags = [...code.matchAll(reConfigBoolean), ...code.matchAll(reConfigValue)]
+    .filter(match => flagKeys.includes(match[1]))
+    .sort((a, b) => a.index! - b.index!)
+  const errorFlags = flags.filter(match => match[1] === 'errors')
+
+  if (!errorFlags.length) {
+    if (!line)
+      return code
+    // Keep the flags together when there are some
+    const start = flags[0]?.index ?? 0
+    return applyCodeEdits(code, [[start, start, line]])
+  }
+
+  return applyCodeEdits(code, errorFlags.map((match, index) => [
+    match.index!,
+    Math.min(match.index! + match[0].length + 1, code.length),
+    index === 0 ? line : '',
+  ]))
+}
+
+function getQueryEdits(code: string, result: TwoslashReturn): CodeEdit[] {
+  const { positionQueries, positionExpandedQueries } = findQueryMarkers(code, {
+    positionQueries: [],
+    positionExpandedQueries: [],
+    positionCompletions: [],
+    positionHighlights: [],
+    positionSignatures: [],
+    positionErrorExpectations: [],
+    positionTypeExpectations: [],
+    removals: [],
+  }, createPositionConverter(code))
+
+  // Map the queried positions to the output, where the query nodes are
+  const targets: NodeStartLength[] = [...positionQueries, ...positionExpandedQueries].map(start => ({ start, length: 0 }))
+  removeCodeRanges(code, result.meta.removals, targets)
+  const outputQueries = targets.slice(0, positionQueries.length)
+  const outputExpandedQueries = targets.slice(positionQueries.length)
+
+  // The positions are collected in the order of the markers
+  let queryIndex = 0
+  let expandedQueryIndex = 0
+
+  const edits: CodeEdit[] = []
+  for (const match of code.matchAll(reAnnonateMarkers)) {
+    if (match[1] !== '?' && match[1] !== '??')
+      continue
+    const expanded = match[1] === '??'
+    const position = expanded
+      ? outputExpandedQueries[expandedQueryIndex++].start
+      : outputQueries[queryIndex++].start
+    const candidates = result.queries.filter(q => q.start <= position && position <= q.start + q.length)
+    const query = candidates.find(q => !!q.expanded === expanded) || candidates[0]
+    if (!query)
+      continue
+
+    const type = getQuickInfoType(query.text, query.target).replace(/\s*\n\s*/g, ' ')
+    const end = match.index! + match[0].length
+    edits.push([end - (match[2]?.length || 0), end, ` ${type}`])
+  }
+  return edits
+}
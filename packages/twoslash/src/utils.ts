@@ -4,7 +4,7 @@ import type { CompilerOptionDeclaration, ParsedFlagNotation, TwoslashReturnMeta,
 import { objectHash } from 'ohash'
 import { defaultHandbookOptions } from './defaults'
 import { TwoslashError } from './error'
-import { reAnnonateMarkers, reConfigBoolean, reConfigValue, reCutAfter, reCutBefore, reCutEnd, reCutStart, reFilenamesMakers } from './regexp'
+import { reAnnonateMarkers, reConfigBoolean, reConfigValue, reCutAfter, reCutBefore, reCutEnd, reCutStart, reExpectType, reFilenamesMakers } from './regexp'
 
 export function getObjectHash(obj: any): string {
   return objectHash(obj)
@@ -32,19 +32,22 @@ export function parsePrimitive(value: string, type: string): any {
 
 export function typesToExtension(types: string) {
   const map: Record<string, string> = {
-    js: 'js',
-    javascript: 'js',
-    ts: 'ts',
-    typescript: 'ts',
-    tsx: 'tsx',
-    jsx: 'jsx',
-    json: 'json',
-    jsn: 'json',
-    map: 'json',
-    mts: 'ts',
-    cts: 'ts',
-    mjs: 'js',
-    cjs: 'js',
+    'js': 'js',
+    'javascript': 'js',
+    'ts': 'ts',
+    'typescript': 'ts',
+    'tsx': 'tsx',
+    'jsx': 'jsx',
+    'json': 'json',
+    'jsn': 'json',
+    'map': 'json',
+    'mts': 'mts',
+    'cts': 'cts',
+    'mjs': 'mjs',
+    'cjs': 'cjs',
+    'd.ts': 'd.ts',
+    'd.mts': 'd.mts',
+    'd.cts': 'd.cts',
   }
 
   if (map[types])
@@ -57,6 +60,14 @@ export function typesToExtension(types: string) {
   )
 }
 
+/** Get the type part of a quick info text, e.g. `string` from `const a: string` */
+export function getQuickInfoType(text: string, target: string) {
+  // The target is matched as a whole name, so it is not found inside the kind, e.g. `t` in `const`
+  const escaped = target.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  const match = text.match(new RegExp(`(^|[\\s.])${escaped}(\\?)?(: | = )`))
+  return match ? text.slice(match.index! + match[0].length) : text
+}
+
 export function getIdentifierTextSpans(ts: typeof import('typescript'), sourceFile: SourceFile, fileOffset: number) {
   const textSpans: [start: number, end: number, text: string][] = []
   checkChildren(sourceFile)
@@ -76,6 +87,17 @@ export function getIdentifierTextSpans(ts: typeof import('typescript'), sourceFi
   }
 }
 
+// Mirrors `TokenType` and `TokenModifier` in TypeScript's `classifier2020.ts`
+const semanticTokenTypes = ['class', 'enum', 'interface', 'namespace', 'typeParameter', 'type', 'parameter', 'variable', 'enumMember', 'property', 'function', 'member']
+const semanticTokenModifiers = ['declaration', 'static', 'async', 'readonly', 'defaultLibrary', 'local']
+
+/** Decode a classification from `getEncodedSemanticClassifications` in the 2020 format */
+export function decodeSemanticClassification(classification: number) {
+  const tokenType = semanticTokenTypes[(classification >> 8) - 1]
+  const tokenModifiers = semanticTokenModifiers.filter((_, i) => classification & (1 << i))
+  return { tokenType, tokenModifiers }
+}
+
 export function getOptionValueFromMap(name: string, key: string, optMap: Map<string, string>) {
   const result = optMap.get(key.toLowerCase())
   if (result === undefined) {
@@ -130,9 +152,43 @@ export function splitFiles(code: string, defaultFileName: string, root: string)
 }
 
 export function getExtension(fileName: string) {
+  // Declaration files have their own extension, as their module format follows the `m` and `c` as well
+  const declaration = fileName.match(/\.(d\.[mc]?ts)$/)
+  if (declaration)
+    return declaration[1]
   return fileName.split('.').pop()!
 }
 
+/** Whether the file is part of a virtual npm package, or the `package.json` of the sample */
+export function isPackageFile(filename: string) {
+  return /(?:^|\/)(?:node_modules\/|package\.json$)/.test(filename)
+}
+
+/**
+ * Create a matcher for a glob like `*.{js,d.ts}` or `src/**\/*.js`, patterns without a slash match the file names
+ */
+export function createGlobMatcher(glob: string) {
+  const escape = (text: string) => text.replace(/[.+^$()|[\]\\{}]/g, '\\$&')
+  const source = glob
+    .split(/(\*\*\/?|\*|\?|\{[^}]*\})/)
+    .map((part, index) => {
+      if (index % 2 === 0)
+        return escape(part)
+      if (part === '**/')
+        return '(?:.*/)?'
+      if (part === '**')
+        return '.*'
+      if (part === '*')
+        return '[^/]*'
+      if (part === '?')
+        return '[^/]'
+      return `(?:${part.slice(1, -1).split(',').map(escape).join('|')})`
+    })
+    .join('')
+  const re = new RegExp(`^${source}$`)
+  return (filename: string) => re.test(glob.includes('/') ? filename : filename.split('/').pop()!)
+}
+
 export function parseFlag(
   name: string,
   value: any,
@@ -206,6 +262,14 @@ export function parseFlag(
     if (name === 'errors' && typeof value === 'string')
       value = value.split(' ').map(Number)
 
+    // "completionDetails" and "typeTree" can be a boolean or a number
+    if ((name === 'completionDetails' || name === 'typeTree') && typeof value === 'string')
+      value = value === 'true' ? true : value === 'false' ? false : Number(value)
+
+    // "emittedFiles" can be a boolean or a glob
+    if (name === 'emittedFiles' && (value === 'true' || value === 'false'))
+      value = value === 'true'
+
     // "noErrors" can be a boolean or a list of numbers
     if (name === 'noErrors' && typeof value === 'string') {
       if (value === 'true')
@@ -303,13 +367,13 @@ export function findCutNotations(code: string, meta: Pick<TwoslashReturnMeta, 'r
 
 export function findQueryMarkers(
   code: string,
-  meta: Pick<TwoslashReturnMeta, 'positionQueries' | 'positionCompletions' | 'positionHighlights' | 'removals'>,
+  meta: Pick<TwoslashReturnMeta, 'positionQueries' | 'positionCompletions' | 'positionHighlights' | 'positionSignatures' | 'positionExpandedQueries' | 'positionErrorExpectations' | 'positionTypeExpectations' | 'removals'>,
   pc: ReturnType<typeof createPositionConverter>,
 ) {
   if (code.includes('//')) {
     const linesQuery = new Set<number>()
     Array.from(code.matchAll(reAnnonateMarkers)).forEach((match) => {
-      const type = match[1] as '?' | '|' | '^^'
+      const type = match[1] as '?' | '??' | '|' | '(' | '!' | '^^'
       const index = match.index!
       meta.removals.push([index, index + match[0].length + 1])
       const markerIndex = match[0].indexOf('^')
@@ -320,12 +384,23 @@ export function findQueryMarkers(
         targetLine -= 1
 
       const targetIndex = pc.posToIndex(targetLine, pos.character)
-      if (type === '?') {
-        meta.positionQueries.push(targetIndex)
+      if (type === '?' || type === '??') {
+        if (type === '?')
+          meta.positionQueries.push(targetIndex)
+        else
+          meta.positionExpandedQueries.push(targetIndex)
+        if (match[2]?.trim())
+          meta.positionTypeExpectations.push([targetIndex, match[2].trim(), type === '?' ? '^?' : '^??'])
       }
       else if (type === '|') {
         meta.positionCompletions.push(targetIndex)
       }
+      else if (type === '(') {
+        meta.positionSignatures.push(targetIndex)
+      }
+      else if (type === '!') {
+        meta.positionErrorExpectations.push([targetIndex, match[2]?.trim() || ''])
+      }
       else {
         const markerLength = match[0].lastIndexOf('^') - markerIndex + 1
         meta.positionHighlights.push([
@@ -340,12 +415,57 @@ export function findQueryMarkers(
   return meta
 }
 
+/**
+ * Find the `// $ExpectType` comments, which check the type of the statement on the next line.
+ * They are only notations with `assertTypes`, otherwise they are kept as regular comments
+ */
+export function findTypeExpectations(
+  code: string,
+  meta: Pick<TwoslashReturnMeta, 'positionTypeExpectations' | 'removals'>,
+) {
+  Array.from(code.matchAll(reExpectType)).forEach((match) => {
+    const index = match.index!
+    const end = index + match[0].length + 1
+    meta.removals.push([index, end])
+    const nextLine = code.slice(end).match(/^\s*/)![0].length + end
+    meta.positionTypeExpectations.push([nextLine, match[1].trim(), '$ExpectType'])
+  })
+  return meta
+}
+
+/**
+ * Map a range of the original code to the code with the removals applied, parts of the range that are removed are trimmed.
+ *
+ * Returns `undefined` when the range is removed entirely
+ */
+export function mapRangeWithRemovals([start, end]: Range, removals: Range[]): Range | undefined {
+  let newStart = start
+  let newEnd = end
+  for (const [removeStart, removeEnd] of removals) {
+    newStart -= Math.max(0, Math.min(removeEnd, start) - removeStart)
+    newEnd -= Math.max(0, Math.min(removeEnd, end) - removeStart)
+  }
+  if (newEnd <= newStart && end > start)
+    return undefined
+  return [newStart, newEnd]
+}
+
+/**
+ * Apply text edits to a string, edits are given in the positions of the original string
+ */
+export function applyCodeEdits(code: string, edits: [start: number, end: number, text: string][]) {
+  return edits
+    .slice()
+    .sort((a, b) => b[0] - a[0] || b[1] - a[1])
+    .reduce((code, [start, end, text]) => code.slice(0, start) + text + code.slice(end), code)
+}
+
 /** De-extension a filename, used for going from an output file to the source */
 export function removeTsExtension(filename: string) {
   // originally, .replace(".jsx", "").replace(".js", "").replace(".d.ts", "").replace(".map", "")
   const sansMapOrDTS = filename
     .replace(/\.map$/, '')
-    .replace(/\.d\.ts$/, '.ts')
+    .replace(/\.d\.([mc]?ts)$/, '.$1')
     .replace(/\.map$/, '')
   return sansMapOrDTS.replace(/\.[^/.]+$/, '')
 }
@@ -1,4 +1,5 @@
-import type { NodeErrorWithoutPosition } from 'twoslash-protocol'
+import type { createPositionConverter, NodeErrorWithoutPosition } from 'twoslash-protocol'
+import type { ParsedFlagNotation, TwoslashReturnMeta } from './types'
 import { TwoslashError } from './error'
 
 /** To ensure that errors are matched up right */
@@ -62,6 +63,92 @@ export function validateCodeForErrors(
   }
 }
 
+/** To ensure that the error tag doesn't list errors that are no longer thrown */
+export function validateUnusedErrors(
+  relevantErrors: NodeErrorWithoutPosition[],
+  expectedErrors: number[],
+  flagNotations: ParsedFlagNotation[],
+  pc: ReturnType<typeof createPositionConverter>,
+) {
+  const unusedErrors = expectedErrors.filter(code => !relevantErrors.some(e => e.code === code))
+  if (!unusedErrors.length)
+    return
+
+  const flag = flagNotations.find(flag => flag.type === 'handbookOptions' && flag.name === 'errors')
+  const location = flag
+    ? `the error tag on line ${pc.indexToPos(flag.start).line + 1}`
+    : `the 'errors' option`
+  const errorsToShow = expectedErrors.filter(code => !unusedErrors.includes(code))
+
+  throw new TwoslashError(
+    `Errors were expected in the sample, but not thrown`,
+    `These errors are listed in ${location}, but were not thrown: ${unusedErrors.join(' ')}.`,
+    errorsToShow.length
+      ? `Expected: // @errors: ${errorsToShow.join(' ')}`
+      : `Remove the error tag, the sample has no errors from it anymore.`,
+  )
+}
+
+/**
+ * To ensure that the errors marked with `^!` start right under the caret,
+ * returns the codes of the matched errors so they don't need to be in an error tag
+ */
+export function validateErrorExpectations(
+  relevantErrors: NodeErrorWithoutPosition[],
+  expectations: TwoslashReturnMeta['positionErrorExpectations'],
+  pc: ReturnType<typeof createPositionConverter>,
+) {
+  const matchedCodes: number[] = []
+
+  for (const [position, expected] of expectations) {
+    const errorsAtPosition = relevantErrors.filter(e => e.start === position)
+    const matched = errorsAtPosition.find(e => !expected
+      || (/^\d+$/.test(expected) ? e.code === Number(expected) : e.text.includes(expected)))
+
+    if (matched) {
+      matchedCodes.push(matched.code as number)
+      continue
+    }
+
+    const line = pc.indexToPos(position).line + 2
+    const description = expected
+      ? `The ^! on line ${line} expects an error matching '${expected}' to start right above it.`
+      : `The ^! on line ${line} expects an error to start right above it.`
+
+    throw new TwoslashError(
+      `Expected error not found`,
+      description,
+      errorsAtPosition.length
+        ? `The errors starting there are:\n  ${errorsAtPosition.map(e => `[${e.code}] ${e.text}`).join('\n  ')}`
+        : `No errors start there, the compiler may report it at another position now.`,
+    )
+  }
+
+  return matchedCodes
+}
+
+/** Compare the type with the one expected by `^? type` or `// $ExpectType type`, ignoring whitespaces */
+export function validateTypeExpectation(
+  expected: string,
+  actual: string,
+  notation: string,
+  line: number,
+  /** Quick info texts can also match with the name of the symbol, e.g. `const a: string` */
+  fullText?: string,
+) {
+  const normalize = (text: string) => text.replace(/\s+/g, '')
+  if (normalize(expected) === normalize(actual) || (fullText && normalize(expected) === normalize(fullText)))
+    return
+
+  throw new TwoslashError(
+    `Type expectation failed`,
+    notation === '$ExpectType'
+      ? `The $ExpectType of the statement on line ${line} expects a different type.`
+      : `The ${notation} on line ${line} expects a different type.`,
+    `- Expected\n+ Received\n\n- ${expected}\n+ ${actual}`,
+  )
+}
+
 /** Mainly to warn myself, I've lost a good few minutes to this before */
 export function validateInput(code: string) {
   if (code.includes('// @errors ')) {
@@ -0,0 +1,74 @@
+import { expect, it } from 'vitest'
+import { createTwoslasher } from '../src/index'
+
+const twoslasher = createTwoslasher()
+
+it('analyzes the emitted declaration file', () => {
+  const result = twoslasher(`
+// @showEmit
+// @analyzeEmit
+// @declaration
+// @showEmittedFile: index.d.ts
+// @filename: maths.ts
+export const double = (n: number) => n * 2
+// @filename: index.ts
+import { double } from './maths'
+export const four = double(2)
+`, 'ts')
+
+  expect(result.code).toMatchInlineSnapshot(`
+    "export declare const four: number;
+    "
+  `)
+  expect(result.hovers.map(i => [i.target, i.text, i.line])).toMatchInlineSnapshot(`
+    [
+      [
+        "four",
+        "const four: number",
+        0,
+      ],
+    ]
+  `)
+  expect(result.errors).toEqual([])
+  expect(result.meta.virtualFiles.at(-1)?.filename).toBe('index.d.ts')
+})
+
+it('reports the diagnostics of the emitted file', () => {
+  const result = twoslasher(`
+// @showEmit
+// @analyzeEmit
+// @declaration
+// @showEmittedFile: index.d.ts
+// @errors: 2304
+export const theme: Theme = 'dark'
+`, 'ts')
+
+  expect(result.code).toContain('export declare const theme: Theme;')
+  expect(result.errors.map(i => [i.code, i.filename, i.line, i.character])).toMatchInlineSnapshot(`
+    [
+      [
+        2304,
+        "index.d.ts",
+        0,
+        28,
+      ],
+    ]
+  `)
+})
+
+it('analyzes the emitted JavaScript', () => {
+  const result = twoslasher(`
+// @showEmit
+// @analyzeEmit
+export const level: string = 'Danger'
+`, 'ts')
+
+  expect(result.hovers.map(i => [i.target, i.text])).toMatchInlineSnapshot(`
+    [
+      [
+        "level",
+        "const level: "Danger"",
+      ],
+    ]
+  `)
+})
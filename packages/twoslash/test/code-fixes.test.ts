@@ -0,0 +1,86 @@
+import { expect, it } from 'vitest'
+import { createTwoslasher } from '../src/index'
+
+const twoslasher = createTwoslasher()
+
+it('attaches code fixes to errors', () => {
+  const code = `
+// @errors: 2304
+// @codeFixes
+// @filename: maths.ts
+export function double(value: number) {
+  return value * 2
+}
+// @filename: index.ts
+const value = double(21)
+`
+  const result = twoslasher(code, 'ts')
+
+  expect(result.errors).toHaveLength(1)
+  expect(result.errors[0].fixes).toMatchInlineSnapshot(`
+    [
+      {
+        "changes": [
+          {
+            "character": 0,
+            "filename": "index.ts",
+            "length": 0,
+            "line": 5,
+            "newText": "import { double } from "maths";
+
+    ",
+            "start": 85,
+          },
+        ],
+        "description": "Add import from "maths"",
+        "fixName": "import",
+      },
+      {
+        "changes": [
+          {
+            "character": 0,
+            "filename": "index.ts",
+            "length": 0,
+            "line": 8,
+            "newText": "
+    function double(arg0: number) {
+        throw new Error("Function not implemented.");
+    }
+    ",
+            "start": 133,
+          },
+        ],
+        "description": "Add missing function declaration 'double'",
+        "fixName": "fixMissingFunctionDeclaration",
+      },
+    ]
+  `)
+})
+
+it('drops edits in cut code', () => {
+  const code = `
+// @errors: 2304
+// @codeFixes
+// @filename: maths.ts
+export function double(value: number) {
+  return value * 2
+}
+// @filename: index.ts
+// ---cut---
+const value = double(21)
+`
+  const result = twoslasher(code, 'ts')
+
+  // The import would be inserted in the cut code
+  expect(result.errors[0].fixes!.map(i => i.fixName)).toEqual(['fixMissingFunctionDeclaration'])
+})
+
+it('does not attach fixes by default', () => {
+  const code = `
+// @errors: 2304
+const value = double(21)
+`
+  const result = twoslasher(code, 'ts')
+
+  expect(result.errors[0].fixes).toBeUndefined()
+})
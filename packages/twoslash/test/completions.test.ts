@@ -0,0 +1,54 @@
+import { expect, it } from 'vitest'
+import { createTwoslasher } from '../src/index'
+
+const twoslasher = createTwoslasher()
+
+const code = `
+// @noErrors
+const api = {
+  /** Fetch the data */
+  fetch(url: string) {},
+  /** @deprecated use \`fetch\` instead */
+  fetchLegacy(url: string) {},
+  fetchAll: [] as string[],
+}
+api.fe
+//    ^|
+`
+
+it('attaches the details of completions', () => {
+  const result = twoslasher(code, 'ts', {
+    handbookOptions: { completionDetails: true },
+  })
+
+  expect(result.completions[0].completions.map(({ name, isDeprecated, detail, docs }) => ({ name, isDeprecated, detail, docs })))
+    .toMatchInlineSnapshot(`
+      [
+        {
+          "detail": "(method) fetch(url: string): void",
+          "docs": "Fetch the data",
+          "isDeprecated": false,
+          "name": "fetch",
+        },
+        {
+          "detail": "(property) fetchAll: string[]",
+          "docs": undefined,
+          "isDeprecated": false,
+          "name": "fetchAll",
+        },
+        {
+          "detail": "(method) fetchLegacy(url: string): void",
+          "docs": undefined,
+          "isDeprecated": true,
+          "name": "fetchLegacy",
+        },
+      ]
+    `)
+})
+
+it('limits the number of details', () => {
+  const result = twoslasher(code.replace('// @noErrors', '// @noErrors\n// @completionDetails: 1'), 'ts')
+
+  expect(result.completions[0].completions.map(i => i.detail))
+    .toEqual(['(method) fetch(url: string): void', undefined, undefined])
+})
@@ -0,0 +1,66 @@
+import { expect, it } from 'vitest'
+import { createTwoslasher } from '../src/index'
+
+const twoslasher = createTwoslasher()
+
+it('finds definitions across virtual files', () => {
+  const code = `
+// @filename: maths.ts
+export function absolute(num: number) {
+  return num < 0 ? -num : num
+}
+// @filename: index.ts
+import { absolute } from './maths'
+const value = absolute(-1)
+`
+  const result = twoslasher(code, 'ts', {
+    handbookOptions: { definitions: true },
+  })
+
+  const node = result.definitions.find(i => i.target === 'absolute' && i.line === 6)
+  expect(node).toBeTruthy()
+  expect(node!.definitions).toMatchInlineSnapshot(`
+    [
+      {
+        "character": 16,
+        "filename": "maths.ts",
+        "length": 8,
+        "line": 2,
+        "start": 40,
+      },
+    ]
+  `)
+})
+
+it('marks definitions outside of the sample as external', () => {
+  const code = `
+const list = [1, 2, 3].map(i => i * 2)
+`
+  const result = twoslasher(code, 'ts', {
+    handbookOptions: { definitions: true },
+  })
+
+  const node = result.definitions.find(i => i.target === 'map')
+  expect(node!.definitions.length).toBeGreaterThan(0)
+  expect(node!.definitions.every(i => i.external && i.filename.includes('lib.es5.d.ts'))).toBe(true)
+  expect(node!.definitions[0].line).toBeUndefined()
+})
+
+it('lists references and drops the cut ones', () => {
+  const code = `
+const greeting = 'Hello'
+console.log(greeting)
+// ---cut---
+console.log(greeting)
+console.log(greeting.length)
+`
+  const result = twoslasher(code, 'ts', {
+    handbookOptions: { references: true },
+  })
+
+  expect(result.references.filter(i => i.target === 'greeting').map(i => [i.line, i.references.map(r => r.line)]))
+    .toEqual([
+      [0, [1]],
+      [1, [0]],
+    ])
+})
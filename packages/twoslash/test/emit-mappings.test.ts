@@ -0,0 +1,117 @@
+import { expect, it } from 'vitest'
+import { createTwoslasher } from '../src/index'
+
+const twoslasher = createTwoslasher()
+
+it('maps the emitted code to the sample', () => {
+  const code = `
+// @showEmit
+// @sourceMap
+// @filename: maths.ts
+export const double = (n: number) => n * 2
+// @filename: index.ts
+import { double } from './maths'
+const four: number = double(2)
+//    ^?
+`
+  const result = twoslasher(code, 'ts', { handbookOptions: { showEmittedFile: 'index.js' } })
+  const sample = twoslasher(code.replace('// @showEmit\n', ''), 'ts').code
+
+  expect(result.meta.emitMappings.map(i => [
+    result.code.slice(i.start, i.start + i.length),
+    i.source.filename,
+    sample.slice(i.source.start, i.source.start + i.source.length),
+  ])).toMatchInlineSnapshot(`
+    [
+      [
+        "// @filename: index.ts",
+        "index.ts",
+        "// @filename: index.ts",
+      ],
+      [
+        "import ",
+        "index.ts",
+        "import ",
+      ],
+      [
+        "{ ",
+        "index.ts",
+        "{ ",
+      ],
+      [
+        "double",
+        "index.ts",
+        "double",
+      ],
+      [
+        " }",
+        "index.ts",
+        " }",
+      ],
+      [
+        " from ",
+        "index.ts",
+        " from ",
+      ],
+      [
+        "'./maths'",
+        "index.ts",
+        "'./maths'",
+      ],
+      [
+        ";",
+        "index.ts",
+        "",
+      ],
+      [
+        "const ",
+        "index.ts",
+        "const ",
+      ],
+      [
+        "four",
+        "index.ts",
+        "four",
+      ],
+      [
+        " = ",
+        "index.ts",
+        ": number = ",
+      ],
+      [
+        "double",
+        "index.ts",
+        "double",
+      ],
+      [
+        "(",
+        "index.ts",
+        "(",
+      ],
+      [
+        "2",
+        "index.ts",
+        "2",
+      ],
+      [
+        ")",
+        "index.ts",
+        ")",
+      ],
+      [
+        ";",
+        "index.ts",
+        "",
+      ],
+    ]
+  `)
+
+  const mapping = result.meta.emitMappings.find(i => result.code.slice(i.start, i.start + i.length) === 'four')!
+  expect([mapping.line, mapping.character, mapping.source.line, mapping.source.character]).toEqual([2, 6, 5, 6])
+})
+
+it('maps nothing without a source map', () => {
+  const result = twoslasher(`// @showEmit\nexport const hello: string = 'world'\n`, 'ts')
+
+  expect(result.meta.emitMappings).toEqual([])
+})
@@ -0,0 +1,108 @@
+import { expect, it } from 'vitest'
+import { createTwoslasher } from '../src/index'
+import { createGlobMatcher } from '../src/utils'
+
+const twoslasher = createTwoslasher()
+
+const code = `
+// @emittedFiles
+// @declaration
+// @sourceMap
+// @filename: maths.ts
+export const double = (n: number) => n * 2
+// @filename: index.ts
+import { double } from './maths'
+export const four = double(2)
+//           ^?
+`
+
+it('collects all the emitted files', () => {
+  const result = twoslasher(code, 'ts')
+
+  expect(result.code).toContain('export const four = double(2)')
+  expect(result.queries[0].text).toBe('const four: number')
+  expect(result.meta.emittedFiles.map(i => [i.name, i.extension])).toMatchInlineSnapshot(`
+    [
+      [
+        "maths.js.map",
+        "json",
+      ],
+      [
+        "maths.js",
+        "js",
+      ],
+      [
+        "maths.d.ts",
+        "d.ts",
+      ],
+      [
+        "index.js.map",
+        "json",
+      ],
+      [
+        "index.js",
+        "js",
+      ],
+      [
+        "index.d.ts",
+        "d.ts",
+      ],
+    ]
+  `)
+  expect(result.meta.emittedFiles.find(i => i.name === 'index.d.ts')?.text).toMatchInlineSnapshot(`
+    "export declare const four: number;
+    "
+  `)
+})
+
+it('gets the nodes of each emitted file', () => {
+  const result = twoslasher(code, 'ts')
+  const declaration = result.meta.emittedFiles.find(i => i.name === 'index.d.ts')!
+
+  expect(declaration.nodes.map(i => [i.type, 'text' in i && i.text, i.line, i.character])).toEqual([
+    ['hover', 'const four: number', 0, 21],
+  ])
+  expect(result.meta.emittedFiles.find(i => i.name === 'index.js')!.nodes.map(i => 'target' in i && i.target))
+    .toEqual(['double', 'four', 'double'])
+  expect(result.meta.emittedFiles.find(i => i.name === 'index.js.map')!.nodes).toEqual([])
+  // Unlike with analyzeEmit, they are not in the virtual files of the sample
+  expect(result.meta.virtualFiles.map(i => i.filename)).not.toContain('index.d.ts')
+})
+
+it('selects the emitted files by glob', () => {
+  const result = twoslasher(code.replace('// @emittedFiles', '// @emittedFiles: index.{js,d.ts}'), 'ts')
+
+  expect(result.meta.emittedFiles.map(i => i.name)).toEqual(['index.js', 'index.d.ts'])
+  // The notations are not emitted
+  expect(result.meta.emittedFiles[0].text).not.toContain('^?')
+})
+
+it('skips the code before the first file when it only contains flags', () => {
+  const result = twoslasher(`// @emittedFiles
+// @declaration
+// @filename: maths.ts
+export const double = (n: number) => n * 2
+`, 'ts')
+
+  expect(result.meta.emittedFiles.map(i => i.name)).toEqual(['maths.js', 'maths.d.ts'])
+
+  // The files which are cut out are still emitted
+  const cut = twoslasher(`// @emittedFiles: maths.js
+// @filename: maths.ts
+export const double = (n: number) => n * 2
+// ---cut---
+// @filename: index.ts
+export const four = 4
+`, 'ts')
+  expect(cut.meta.emittedFiles[0].text).toContain('export const double')
+})
+
+it('matches globs', () => {
+  const isMatch = createGlobMatcher('*.{js,d.ts}')
+  expect(['index.js', 'src/index.d.ts', 'index.js.map', 'index.ts'].filter(isMatch))
+    .toEqual(['index.js', 'src/index.d.ts'])
+
+  const isMatchPath = createGlobMatcher('packages/**/*.js')
+  expect(['packages/a/index.js', 'packages/a/src/index.js', 'index.js', 'packages/a/index.d.ts'].filter(isMatchPath))
+    .toEqual(['packages/a/index.js', 'packages/a/src/index.js'])
+})
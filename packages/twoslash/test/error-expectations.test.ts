@@ -0,0 +1,66 @@
+import { expect, it } from 'vitest'
+import { createTwoslasher } from '../src/index'
+
+const twoslasher = createTwoslasher()
+
+it('matches errors by code or message under the caret', () => {
+  const code = `
+const a: string = 1
+//    ^! 2322
+const b: number = 'b'
+//    ^! Type 'string' is not assignable
+`
+  const result = twoslasher(code, 'ts')
+
+  expect(result.errors.map(e => [e.code, e.line, e.character])).toEqual([
+    [2322, 1, 6],
+    [2322, 2, 6],
+  ])
+  expect(result.code).not.toContain('^!')
+})
+
+it('throws with the line when the error moved', () => {
+  const code = `
+const a: string = 1
+//          ^! 2322
+`
+  expect(() => twoslasher(code, 'ts'))
+    .toThrowErrorMatchingInlineSnapshot(`
+      [Error: 
+      ## Expected error not found
+
+      The ^! on line 3 expects an error matching '2322' to start right above it.
+
+      No errors start there, the compiler may report it at another position now.]
+    `)
+})
+
+it('throws when the message does not match', () => {
+  const code = `
+// @errors: 2322
+const a: string = 1
+//    ^! Cannot find name
+`
+  expect(() => twoslasher(code, 'ts'))
+    .toThrowError(`[2322] Type 'number' is not assignable to type 'string'.`)
+})
+
+it('reports stale codes in the error tag', () => {
+  const code = `
+// @noUnusedErrors
+// @errors: 2322 2588
+const a: string = 1
+`
+  expect(() => twoslasher(code, 'ts'))
+    .toThrowErrorMatchingInlineSnapshot(`
+      [Error: 
+      ## Errors were expected in the sample, but not thrown
+
+      These errors are listed in the error tag on line 3, but were not thrown: 2588.
+
+      Expected: // @errors: 2322]
+    `)
+
+  expect(() => twoslasher(code.replace(' 2588', ''), 'ts')).not.toThrow()
+  expect(() => twoslasher(code.replace('// @noUnusedErrors\n', ''), 'ts')).not.toThrow()
+})
@@ -0,0 +1,112 @@
+import { expect, it } from 'vitest'
+import { createTwoslasher } from '../src/index'
+
+const twoslasher = createTwoslasher()
+
+it('supports module and declaration extensions in virtual files', () => {
+  const code = `
+// @module: nodenext
+// @filename: package.json
+{ "type": "module" }
+// @filename: legacy.cts
+const value = 1
+export = value
+// @filename: esm.mts
+export const esm = 'esm' as const
+// @filename: globals.d.ts
+declare const decl: number
+// @filename: index.ts
+import legacy from './legacy.cjs'
+import { esm } from './esm.mjs'
+legacy + decl
+//^?
+esm
+//^?
+`
+  const result = twoslasher(code, 'ts')
+
+  expect(result.meta.compilerOptions.moduleResolution).toBe(99)
+  expect(result.meta.virtualFiles.map(i => [i.filename, i.extension, !!i.supportLsp])).toMatchInlineSnapshot(`
+    [
+      [
+        "__index__.ts",
+        "ts",
+        true,
+      ],
+      [
+        "package.json",
+        "json",
+        false,
+      ],
+      [
+        "legacy.cts",
+        "cts",
+        true,
+      ],
+      [
+        "esm.mts",
+        "mts",
+        true,
+      ],
+      [
+        "globals.d.ts",
+        "d.ts",
+        true,
+      ],
+      [
+        "index.ts",
+        "ts",
+        true,
+      ],
+    ]
+  `)
+  expect(result.queries.map(i => i.text)).toMatchInlineSnapshot(`
+    [
+      "(alias) const legacy: 1
+    import legacy",
+      "(alias) const esm: "esm"
+    import esm",
+    ]
+  `)
+  expect(result.hovers.find(i => i.target === 'decl')?.text).toBe('const decl: number')
+})
+
+it('keeps the module format of the file extensions', () => {
+  const code = `
+// @module: nodenext
+// @errors: 1470
+// @filename: index.cts
+export const url = import.meta.url
+`
+  const result = twoslasher(code, 'ts')
+
+  expect(result.errors.map(i => [i.filename, i.code])).toEqual([['index.cts', 1470]])
+})
+
+it('emits with the extension of the sample', () => {
+  const result = twoslasher(`
+// @showEmit
+// @module: nodenext
+export const a = 1
+`, 'cts')
+
+  expect(result.meta.extension).toBe('cjs')
+  expect(result.code).toMatchInlineSnapshot(`
+    ""use strict";
+    Object.defineProperty(exports, "__esModule", { value: true });
+    exports.a = void 0;
+    exports.a = 1;
+    "
+  `)
+})
+
+it('supports declaration samples', () => {
+  const result = twoslasher(`
+declare const a: 1
+//            ^?
+`, 'd.ts')
+
+  expect(result.meta.extension).toBe('d.ts')
+  expect(result.meta.virtualFiles[0].filename).toBe('index.d.ts')
+  expect(result.queries[0].text).toBe('const a: 1')
+})
@@ -0,0 +1,141 @@
+import { expect, it } from 'vitest'
+import { createTwoslasher } from '../src/index'
+
+const twoslasher = createTwoslasher()
+
+it('scopes flags to the file that follows @filename', () => {
+  const code = `
+// @fileScopedFlags
+// @errors: 2322
+// @filename: checked.js
+// @checkJs
+/** @type {number} */
+const a = 'a'
+// @filename: unchecked.js
+/** @type {number} */
+const b = 'b'
+`
+  const result = twoslasher(code, 'ts')
+
+  expect(result.errors.map(i => [i.filename, i.code])).toEqual([['checked.js', 2322]])
+  expect(result.meta.compilerOptions.checkJs).toBeUndefined()
+  expect(result.meta.virtualFiles.find(i => i.filename === 'checked.js')?.compilerOptions).toEqual({ checkJs: true })
+  expect(result.code).toMatchInlineSnapshot(`
+    "
+    // @filename: checked.js
+    /** @type {number} */
+    const a = 'a'
+    // @filename: unchecked.js
+    /** @type {number} */
+    const b = 'b'
+    "
+  `)
+})
+
+it('applies the flags before the first @filename to all files', () => {
+  const code = `
+// @fileScopedFlags
+// @checkJs
+// @errors: 2322
+// @filename: a.js
+/** @type {number} */
+const a = 'a'
+// @filename: b.js
+// @checkJs: false
+/** @type {number} */
+const b = 'b'
+`
+  const result = twoslasher(code, 'ts')
+
+  expect(result.meta.compilerOptions.checkJs).toBe(true)
+  expect(result.errors.map(i => [i.filename, i.code])).toEqual([['a.js', 2322]])
+})
+
+it('keeps checking TypeScript files with checkJs scoped to them', () => {
+  const code = `
+// @fileScopedFlags
+// @errors: 2322
+// @filename: index.ts
+// @checkJs: false
+const a: number = 'a'
+`
+  const result = twoslasher(code, 'ts')
+
+  expect(result.errors.map(i => [i.filename, i.code])).toEqual([['index.ts', 2322]])
+  expect(result.meta.virtualFiles.find(i => i.filename === 'index.ts')?.prepend).toBeFalsy()
+})
+
+it('scopes the jsx import source', () => {
+  const code = `
+// @fileScopedFlags
+// @jsx: react-jsx
+// @moduleResolution: bundler
+// @filename: node_modules/custom-jsx/jsx-runtime.d.ts
+export function jsx(): void
+export namespace JSX {
+  interface Element { preact: true }
+  interface IntrinsicElements { div: { id?: string } }
+}
+// @filename: index.tsx
+// @jsxImportSource: custom-jsx
+const el = <div id="x" />
+//    ^?
+`
+  const result = twoslasher(code, 'tsx')
+
+  expect(result.queries[0].text).toMatchInlineSnapshot(`"const el: JSX.Element"`)
+  expect(result.errors).toEqual([])
+})
+
+it('applies the scoped flags to the emitted code', () => {
+  const code = `
+// @fileScopedFlags
+// @jsx: react-jsx
+// @moduleResolution: bundler
+// @emittedFiles: *.js
+// @filename: node_modules/custom-jsx/jsx-runtime.d.ts
+export function jsx(): void
+export namespace JSX {
+  interface IntrinsicElements { div: {} }
+}
+// @filename: index.tsx
+// @jsxImportSource: custom-jsx
+export const el = <div />
+`
+  const result = twoslasher(`// @showEmit\n${code}`, 'tsx')
+
+  expect(result.code).toContain('from "custom-jsx/jsx-runtime"')
+  expect(twoslasher(code, 'tsx').meta.emittedFiles[0].text).toContain('from "custom-jsx/jsx-runtime"')
+})
+
+it('throws on flags that can not be scoped to a file', () => {
+  const code = `
+// @fileScopedFlags
+// @filename: a.ts
+// @strict: false
+const a = 1
+`
+  expect(() => twoslasher(code, 'ts'))
+    .toThrowErrorMatchingInlineSnapshot(`
+      [Error: 
+      ## Unsupported file scoped flags
+
+      The following compiler options can't be scoped to a.ts:
+      @strict
+
+      TypeScript only reads @checkJs, @jsx, @jsxFactory, @jsxFragmentFactory, @jsxImportSource from each file.
+
+      Move the flags before the first @filename to apply them to all files. For the module format of a file, use the .mts or .cts extension.]
+    `)
+})
+
+it('throws on jsx modes without a pragma', () => {
+  const code = `
+// @fileScopedFlags
+// @filename: index.tsx
+// @jsx: preserve
+const el = <div />
+`
+  expect(() => twoslasher(code, 'tsx'))
+    .toThrowError('The @jsx flag scoped to index.tsx can only be react, react-jsx or react-jsxdev.')
+})
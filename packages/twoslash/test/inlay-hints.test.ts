@@ -0,0 +1,56 @@
+import { expect, it } from 'vitest'
+import { createTwoslasher } from '../src/index'
+
+const twoslasher = createTwoslasher()
+
+it('emits inlay hints in output positions', () => {
+  const code = `
+// @inlayHints
+function ignored(value: number) {}
+ignored(1)
+// ---cut---
+function double(value: number) {
+  return value * 2
+}
+const result = double(21)
+`
+  const result = twoslasher(code, 'ts')
+
+  expect(result.inlays).toMatchInlineSnapshot(`
+    [
+      {
+        "character": 30,
+        "kind": "Type",
+        "length": 0,
+        "line": 0,
+        "paddingLeft": true,
+        "paddingRight": undefined,
+        "start": 30,
+        "text": ": number",
+        "type": "inlay",
+      },
+      {
+        "character": 12,
+        "kind": "Type",
+        "length": 0,
+        "line": 3,
+        "paddingLeft": true,
+        "paddingRight": undefined,
+        "start": 66,
+        "text": ": number",
+        "type": "inlay",
+      },
+      {
+        "character": 22,
+        "kind": "Parameter",
+        "length": 0,
+        "line": 3,
+        "paddingLeft": undefined,
+        "paddingRight": true,
+        "start": 76,
+        "text": "value:",
+        "type": "inlay",
+      },
+    ]
+  `)
+})
@@ -0,0 +1,92 @@
+import type { NavigationTreeItem } from '../src/types'
+import { expect, it } from 'vitest'
+import { createTwoslasher } from '../src/index'
+
+const twoslasher = createTwoslasher()
+
+function simplify(item: NavigationTreeItem): any {
+  return {
+    text: item.text,
+    kind: item.kind,
+    spans: item.spans.map(i => [i.line, i.character, i.length]),
+    childItems: item.childItems.map(simplify),
+  }
+}
+
+it('collects navigation trees in output positions', () => {
+  const code = `
+// @navigationTree
+function setup() {}
+// ---cut---
+class Counter {
+  count = 0
+  // ---cut-start---
+  reset() {}
+  // ---cut-end---
+  increment() {
+    this.count++
+  }
+}
+`
+  const result = twoslasher(code, 'ts')
+
+  expect(result.code).not.toContain('reset')
+  expect(simplify(result.meta.navigationTrees['index.ts'])).toMatchInlineSnapshot(`
+    {
+      "childItems": [
+        {
+          "childItems": [
+            {
+              "childItems": [],
+              "kind": "property",
+              "spans": [
+                [
+                  1,
+                  2,
+                  9,
+                ],
+              ],
+              "text": "count",
+            },
+            {
+              "childItems": [],
+              "kind": "method",
+              "spans": [
+                [
+                  2,
+                  2,
+                  34,
+                ],
+              ],
+              "text": "increment",
+            },
+          ],
+          "kind": "class",
+          "spans": [
+            [
+              0,
+              0,
+              66,
+            ],
+          ],
+          "text": "Counter",
+        },
+      ],
+      "kind": "module",
+      "spans": [
+        [
+          0,
+          0,
+          67,
+        ],
+      ],
+      "text": ""index"",
+    }
+  `)
+})
+
+it('does not collect navigation trees by default', () => {
+  const result = twoslasher('const a = 1', 'ts')
+
+  expect(result.meta.navigationTrees).toEqual({})
+})
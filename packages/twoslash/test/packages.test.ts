@@ -0,0 +1,57 @@
+import { expect, it } from 'vitest'
+import { createTwoslasher } from '../src/index'
+
+const twoslasher = createTwoslasher()
+
+const code = `
+// @module: nodenext
+// @filename: node_modules/lib/package.json
+{
+  "name": "lib",
+  "exports": {
+    ".": { "types": "./dist/index.d.ts" },
+    "./utils": {
+      "import": "./dist/utils.d.mts",
+      "require": "./dist/utils.d.cts"
+    }
+  }
+}
+// @filename: node_modules/lib/dist/index.d.ts
+export declare const main: string
+// @filename: node_modules/lib/dist/utils.d.mts
+export declare function format(): 'esm'
+// @filename: node_modules/lib/dist/utils.d.cts
+export declare function format(): 'cjs'
+// @filename: package.json
+{ "type": "module" }
+// @filename: index.ts
+import { main } from 'lib'
+import { format } from 'lib/utils'
+const formatted = format()
+//    ^?
+`
+
+it('resolves virtual packages with their exports and type', () => {
+  const result = twoslasher(code, 'ts')
+
+  expect(result.queries[0].text).toBe('const formatted: "esm"')
+  expect(result.code).toMatchInlineSnapshot(`
+    "
+    // @filename: index.ts
+    import { main } from 'lib'
+    import { format } from 'lib/utils'
+    const formatted = format()
+    "
+  `)
+
+  const commonjs = twoslasher(code.replace('"type": "module"', '"type": "commonjs"'), 'ts')
+  expect(commonjs.queries[0].text).toBe('const formatted: "cjs"')
+})
+
+it('shows the package files with showPackageFiles', () => {
+  const result = twoslasher(`// @showPackageFiles\n${code}`, 'ts')
+
+  expect(result.code).toContain('// @filename: node_modules/lib/package.json')
+  expect(result.code).toContain('// @filename: package.json')
+  expect(result.queries[0].text).toBe('const formatted: "esm"')
+})
@@ -0,0 +1,89 @@
+import { expect, it } from 'vitest'
+import { createTwoslasher } from '../src/index'
+
+const twoslasher = createTwoslasher()
+
+const code = `
+// @filename: packages/core/tsconfig.json
+{ "compilerOptions": { "composite": true, "strict": false } }
+// @filename: packages/core/index.ts
+export function greet(name) {
+  return \`Hello \${name}\`
+}
+// @filename: packages/app/tsconfig.json
+{
+  "compilerOptions": { "composite": true },
+  "references": [{ "path": "../core" }]
+}
+// @filename: packages/app/index.ts
+import { greet } from '../core/index'
+export const message = greet('world')
+//           ^?
+`
+
+it('builds each project with its own options', () => {
+  const result = twoslasher(code, 'ts')
+
+  expect(result.meta.virtualFiles.map(i => [i.filename, i.project])).toMatchInlineSnapshot(`
+    [
+      [
+        "index.ts",
+        undefined,
+      ],
+      [
+        "packages/core/tsconfig.json",
+        undefined,
+      ],
+      [
+        "packages/core/index.ts",
+        "packages/core/tsconfig.json",
+      ],
+      [
+        "packages/app/tsconfig.json",
+        undefined,
+      ],
+      [
+        "packages/app/index.ts",
+        "packages/app/tsconfig.json",
+      ],
+    ]
+  `)
+  expect(result.queries[0].text).toBe('const message: string')
+  expect(result.hovers.find(i => i.target === 'greet')?.text).toBe('function greet(name: any): string')
+
+  // The implicit any is only allowed in the core project
+  expect(() => twoslasher(`${code}export function shout(name) {}\n`, 'ts'))
+    .toThrowError('Expected: // @errors: 7006')
+})
+
+it('reports the errors of the project references', () => {
+  const unreferenced = twoslasher(`// @errors: 6307\n${code.replace(/,\n {2}"references": .+/, '')}`, 'ts')
+  expect(unreferenced.errors.map(i => [i.filename, i.code])).toEqual([['packages/app/index.ts', 6307]])
+
+  const notComposite = twoslasher(`// @errors: 6306\n${code.replace('"composite": true, ', '')}`, 'ts')
+  expect(notComposite.errors.map(i => [i.filename, i.code, i.line])).toEqual([['packages/app/tsconfig.json', 6306, 10]])
+})
+
+it('emits the files of each project', () => {
+  const result = twoslasher(`// @showEmit\n// @showEmittedFile: packages/app/index.d.ts\n${code}`, 'ts')
+
+  expect(result.code).toMatchInlineSnapshot(`
+    "export declare const message: string;
+    "
+  `)
+})
+
+it('caches the environments of the projects', () => {
+  const cache = new Map()
+  const cached = createTwoslasher({ cache })
+
+  const first = cached(code, 'ts')
+  // The environment of the sample, and one for each project
+  expect(cache.size).toBe(3)
+  const second = cached(code, 'ts')
+
+  expect(cache.size).toBe(3)
+  expect(second.queries[0].text).toBe(first.queries[0].text)
+  // The references are resolved for the current sample
+  expect(cached(`// @errors: 6307\n${code.replace(/,\n {2}"references": .+/, '')}`, 'ts').errors.map(i => i.code)).toEqual([6307])
+})
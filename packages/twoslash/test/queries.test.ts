@@ -100,3 +100,87 @@ const abc = "123"
     result2.queries,
   )
 })
+
+it('keeps the display parts', () => {
+  const file = `
+// @displayParts
+/** @deprecated */
+const abc = "123"
+//    ^?
+  `
+  const result = twoslasher(file, 'ts')
+  const { displayParts, kind, kindModifiers } = result.queries[0]
+
+  expect(kind).toEqual('const')
+  expect(kindModifiers).toEqual('deprecated')
+  expect(displayParts).toMatchInlineSnapshot(`
+    [
+      {
+        "kind": "keyword",
+        "text": "const",
+      },
+      {
+        "kind": "space",
+        "text": " ",
+      },
+      {
+        "kind": "localName",
+        "text": "abc",
+      },
+      {
+        "kind": "punctuation",
+        "text": ":",
+      },
+      {
+        "kind": "space",
+        "text": " ",
+      },
+      {
+        "kind": "stringLiteral",
+        "text": ""123"",
+      },
+    ]
+  `)
+  expect(displayParts!.map(i => i.text).join('')).toEqual(result.queries[0].text)
+})
+
+it('expands types with ^??', () => {
+  const file = `
+interface User { readonly id: number, name: string, email?: string }
+type Draft = Partial<Omit<User, 'id'>> & { tags: string[] }
+//   ^??
+const draft: Draft | null = null
+//    ^??
+//    ^?
+  `
+  const result = twoslasher(file, 'ts')
+
+  expect(result.queries.map(i => [i.text, i.expanded])).toMatchInlineSnapshot(`
+    [
+      [
+        "type Draft = { name?: string | undefined; email?: string | undefined; tags: string[]; }",
+        true,
+      ],
+      [
+        "const draft: Draft | null",
+        undefined,
+      ],
+      [
+        "const draft: null | { name?: string | undefined; email?: string | undefined; tags: string[]; }",
+        true,
+      ],
+    ]
+  `)
+})
+
+it('expands every query with expandQueries', () => {
+  const file = `
+type Point = Readonly<Record<'x' | 'y', number>>
+//   ^?
+  `
+  const result = twoslasher(file, 'ts', {
+    handbookOptions: { expandQueries: true },
+  })
+
+  expect(result.queries[0].text).toMatchInlineSnapshot(`"type Point = { readonly x: number; readonly y: number; }"`)
+})
@@ -0,0 +1,115 @@
+import { expect, it } from 'vitest'
+import { createTwoslasher } from '../src/index'
+
+const twoslasher = createTwoslasher()
+
+it('organizes imports', () => {
+  const code = `
+// @organizeImports
+// @filename: maths.ts
+export const one = 1
+export const two = 2
+// @filename: index.ts
+// ---cut---
+import { two, one } from './maths'
+import { three } from './unused'
+console.log(one + two)
+`
+  const result = twoslasher(code, 'ts')
+
+  expect(result.code).toMatchInlineSnapshot(`
+    "import { one, two } from './maths'
+    console.log(one + two)
+    "
+  `)
+  expect(result.hovers.map(i => i.text)).toContain('(alias) const one: 1\nimport one')
+})
+
+it('applies a refactor on the highlighted range', () => {
+  const code = `
+// @applyRefactor: Extract to function
+const a = 1
+const b = 2
+const sum = a + b
+//          ^^^^^
+`
+  const result = twoslasher(code, 'ts')
+
+  expect(result.code).toMatchInlineSnapshot(`
+    "
+    const a = 1
+    const b = 2
+    const sum = newFunction()
+
+    function newFunction() {
+        return a + b
+    }
+    "
+  `)
+  expect(result.highlights).toEqual([])
+  expect(result.hovers.find(i => i.target === 'newFunction')?.text).toContain('function newFunction(): number')
+})
+
+it('keeps the other highlights in place', () => {
+  const code = `
+// @applyRefactor: Extract to function
+const a = 1
+const sum = a + 1
+//          ^^^^^
+const b = 2
+`
+  const result = twoslasher(code, 'ts', { positionHighlights: [[code.indexOf('const b'), code.indexOf('const b') + 5]] })
+
+  expect(result.code).toContain('const sum = newFunction()')
+  expect(result.code).not.toContain('^^^^^')
+  expect(result.highlights.map(i => [result.code.slice(i.start, i.start + i.length), i.text])).toEqual([
+    ['const', undefined],
+  ])
+  expect(result.highlights[0].line).toBe(3)
+})
+
+it('keeps the queries of the options in place', () => {
+  const code = `
+// @applyRefactor: Extract to function
+const a = 1
+const sum = a + 1
+//          ^^^^^
+const b = 2
+console.log(b)
+`
+  const result = twoslasher(code, 'ts', {
+    positionQueries: [code.indexOf('b = 2')],
+    positionSignatures: [code.indexOf('b)')],
+  })
+
+  expect(result.queries.map(i => [i.text, i.line])).toEqual([['const b: 2', 3]])
+  expect(result.nodes.filter(i => i.type === 'signature').map(i => [i.line, i.character])).toEqual([[4, 12]])
+})
+
+it('throws on unknown refactors', () => {
+  const code = `
+// @applyRefactor: Make it better
+const a = 1
+//    ^
+`
+  expect(() => twoslasher(code, 'ts'))
+    .toThrowError('Use ^^^ to highlight the range')
+
+  expect(() => twoslasher(code.replace('//    ^', '//    ^^'), 'ts'))
+    .toThrowError(`The refactor 'Make it better' is not available`)
+})
+
+it('combines with showEmit', () => {
+  const code = `
+// @organizeImports
+// @showEmit
+import { b, a } from './maths'
+console.log(a, b)
+// @filename: maths.ts
+export const a = 1
+export const b = 2
+`
+  const result = twoslasher(code, 'ts')
+
+  expect(result.code).toContain('import { a, b } from \'./maths\'')
+})
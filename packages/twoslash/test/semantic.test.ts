@@ -0,0 +1,33 @@
+import { expect, it } from 'vitest'
+import { createTwoslasher } from '../src/index'
+
+const twoslasher = createTwoslasher()
+
+it('emits semantic classifications', () => {
+  const code = `
+interface User { readonly name: string }
+/** @deprecated */
+type Name = User['name']
+// ---cut---
+function greet(user: User, name: Name) {
+  return user.name + name
+}
+`
+  const result = twoslasher(code, 'ts', {
+    handbookOptions: { semanticClassifications: true },
+  })
+
+  expect(result.semantics.map(i => `${i.line}:${i.character} ${i.target} ${i.tokenType} [${i.tokenModifiers.join(', ')}]`))
+    .toMatchInlineSnapshot(`
+      [
+        "0:9 greet function [declaration]",
+        "0:15 user parameter [declaration]",
+        "0:21 User interface []",
+        "0:27 name parameter [declaration]",
+        "0:33 Name type [deprecated]",
+        "1:9 user parameter []",
+        "1:14 name property [readonly]",
+        "1:21 name parameter []",
+      ]
+    `)
+})
@@ -0,0 +1,67 @@
+import { expect, it } from 'vitest'
+import { createTwoslasher } from '../src/index'
+
+const twoslasher = createTwoslasher()
+
+it('gets the signature help of overloads', () => {
+  const code = `
+declare function pad(value: string): string
+declare function pad(value: string, length: number): string
+pad('a', 2)
+//       ^(
+`
+  const result = twoslasher(code, 'ts')
+
+  expect(result.code).not.toContain('^(')
+  expect(result.signatures).toMatchInlineSnapshot(`
+    [
+      {
+        "activeParameter": 1,
+        "character": 9,
+        "length": 0,
+        "line": 3,
+        "selectedSignature": 1,
+        "signatures": [
+          {
+            "docs": undefined,
+            "parameters": [
+              {
+                "docs": undefined,
+                "name": "value",
+                "text": "value: string",
+              },
+            ],
+            "text": "pad(value: string): string",
+          },
+          {
+            "docs": undefined,
+            "parameters": [
+              {
+                "docs": undefined,
+                "name": "value",
+                "text": "value: string",
+              },
+              {
+                "docs": undefined,
+                "name": "length",
+                "text": "length: number",
+              },
+            ],
+            "text": "pad(value: string, length: number): string",
+          },
+        ],
+        "start": 114,
+        "type": "signature",
+      },
+    ]
+  `)
+})
+
+it('throws when there is no call', () => {
+  const code = `
+const a = 1
+//    ^(
+`
+  expect(() => twoslasher(code, 'ts'))
+    .toThrowError('returned nothing from the compiler')
+})
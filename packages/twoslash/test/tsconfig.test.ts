@@ -0,0 +1,135 @@
+import { mkdirSync, mkdtempSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { expect, it } from 'vitest'
+import { createTwoslasher } from '../src/index'
+
+const root = mkdtempSync(join(tmpdir(), 'twoslash-tsconfig-'))
+mkdirSync(join(root, 'configs'))
+writeFileSync(join(root, 'configs/base.json'), JSON.stringify({
+  compilerOptions: {
+    noImplicitAny: false,
+    // Relative to the config file, as there is no `baseUrl`
+    paths: { '#utils': ['../src/utils.ts'] },
+  },
+}))
+writeFileSync(join(root, 'tsconfig.json'), `{
+  // Comments are fine
+  "extends": "./configs/base.json",
+  "compilerOptions": {
+    "exactOptionalPropertyTypes": true,
+    "noEmit": true,
+  },
+}`)
+mkdirSync(join(root, 'src'))
+writeFileSync(join(root, 'src/utils.ts'), 'export const double = (n: number) => n * 2\n')
+
+it('loads the compiler options from a tsconfig', () => {
+  const twoslasher = createTwoslasher({ vfsRoot: root, tsconfig: true })
+  const result = twoslasher(`
+// @errors: 2375
+function log(value) {}
+import { double } from '#utils'
+const result = double(2)
+interface Options { flag?: boolean }
+const options: Options = { flag: undefined }
+`, 'ts')
+
+  expect(result.meta.compilerOptions.exactOptionalPropertyTypes).toBe(true)
+  expect(result.meta.compilerOptions.noImplicitAny).toBe(false)
+  expect(result.meta.compilerOptions.noEmit).toBeUndefined()
+  expect(result.meta.compilerOptions.baseUrl).toBeUndefined()
+  expect(result.errors.map(e => e.code)).toEqual([2375])
+  expect(result.hovers.find(i => i.target === 'result')?.text).toEqual('const result: number')
+})
+
+it('is overridden by the other options', () => {
+  const twoslasher = createTwoslasher({
+    vfsRoot: root,
+    tsconfig: 'tsconfig.json',
+    compilerOptions: { exactOptionalPropertyTypes: false },
+  })
+  const result = twoslasher(`
+// @noImplicitAny
+const a = 1
+`, 'ts')
+
+  expect(result.meta.compilerOptions.exactOptionalPropertyTypes).toBe(false)
+  expect(result.meta.compilerOptions.noImplicitAny).toBe(true)
+})
+
+it('throws on invalid configs', () => {
+  writeFileSync(join(root, 'invalid.json'), JSON.stringify({ compilerOptions: { target: 'es1' } }))
+
+  expect(() => createTwoslasher({ vfsRoot: root, tsconfig: 'invalid.json' }))
+    .toThrowError(`Argument for '--target' option must be`)
+  expect(() => createTwoslasher({ vfsRoot: root, tsconfig: 'missing.json' }))
+    .toThrowError('Could not find the tsconfig')
+})
+
+it('applies a tsconfig.json in the sample', () => {
+  const twoslasher = createTwoslasher()
+  const code = `
+// @filename: tsconfig.json
+{
+  "compilerOptions": {
+    "strict": false,
+    "baseUrl": ".",
+    "paths": { "@/*": ["./src/*"] }
+  }
+}
+// @filename: src/maths.ts
+export const one = 1
+// @filename: index.ts
+// @noImplicitAny
+import { one } from '@/maths'
+const two = one + one
+`
+  const result = twoslasher(code, 'ts')
+
+  expect(result.meta.compilerOptions.strict).toBe(false)
+  expect(result.meta.compilerOptions.noImplicitAny).toBe(true)
+  expect(result.errors).toEqual([])
+  expect(result.hovers.find(i => i.target === 'two')?.text).toEqual('const two: number')
+  expect(result.code).toContain('"strict": false')
+})
+
+it('resolves the paths against the tsconfig.json of each project', () => {
+  const twoslasher = createTwoslasher()
+  const code = `
+// @filename: packages/app/tsconfig.json
+{ "compilerOptions": { "paths": { "#lib": ["./lib.ts"] } } }
+// @filename: packages/app/lib.ts
+export const one = 1
+// @filename: packages/app/index.ts
+import { one } from '#lib'
+const two = one + one
+`
+  const result = twoslasher(code, 'ts')
+
+  expect(result.errors).toEqual([])
+  expect(result.hovers.find(i => i.target === 'two')?.text).toEqual('const two: number')
+})
+
+it('points at the errors in the tsconfig.json of the sample', () => {
+  const twoslasher = createTwoslasher()
+  const code = `
+const a = 1
+// @filename: tsconfig.json
+{
+  "compilerOptions": {
+    "target": "es1"
+  }
+}
+`
+  expect(() => twoslasher(code, 'ts'))
+    .toThrowErrorMatchingInlineSnapshot(`
+      [Error: 
+      ## Invalid tsconfig.json in the sample
+
+      TypeScript could not parse the tsconfig.json in the sample:
+      [6046] Argument for '--target' option must be: 'es5', 'es6', 'es2015', 'es2016', 'es2017', 'es2018', 'es2019', 'es2020', 'es2021', 'es2022', 'es2023', 'es2024', 'esnext'. (line 6)
+
+      Fix the errors in the JSON, or use inline flags like \`// @strict\` instead.]
+    `)
+})
@@ -0,0 +1,119 @@
+import { expect, it } from 'vitest'
+import { createTwoslasher, removeTwoslashNotations } from '../src/index'
+
+const twoslasher = createTwoslasher()
+
+it('passes when the types match', () => {
+  const code = `
+// @assertTypes
+const maybe = Math.random() > 0.5 ? 'yes' : undefined
+//    ^? "yes"|undefined
+interface User { name: string }
+//        ^? interface User
+// $ExpectType number[]
+const list = [1, 2, 3].map(i => i * 2)
+// $ExpectType Promise<number>
+Promise.resolve(1)
+`
+  const result = twoslasher(code, 'ts')
+
+  expect(result.queries.map(i => i.text)).toEqual([
+    'const maybe: "yes" | undefined',
+    'interface User',
+  ])
+  expect(result.code).not.toContain('$ExpectType')
+})
+
+it('compares the types of short names and parameters', () => {
+  const code = `
+// @assertTypes
+const t = 1
+//    ^? 1
+function greet(a: string, m?: number) {
+//             ^? string
+//                        ^? number | undefined
+  return a
+}
+`
+  expect(twoslasher(code, 'ts').queries.map(i => i.text)).toEqual([
+    'const t: 1',
+    '(parameter) a: string',
+    '(parameter) m: number | undefined',
+  ])
+
+  expect(() => twoslasher(code.replace('^? 1', '^? 2'), 'ts'))
+    .toThrowError(/- 2\n\+ 1/)
+})
+
+it('checks the statements nested in functions and namespaces', () => {
+  const code = `
+// @assertTypes
+function double(n: number) {
+  // $ExpectType number
+  const x = n * 2
+  return x
+}
+namespace Maths {
+  // $ExpectType string
+  export const pi = String(Math.PI)
+}
+`
+  expect(() => twoslasher(code, 'ts')).not.toThrow()
+  expect(() => twoslasher(code.replace('$ExpectType number', '$ExpectType string'), 'ts'))
+    .toThrowError(`The $ExpectType of the statement on line 5 expects a different type.`)
+})
+
+it('throws with a diff on mismatches', () => {
+  const code = `
+// @assertTypes
+const maybe = Math.random() > 0.5 ? 'yes' : undefined
+//    ^? string | undefined
+`
+  expect(() => twoslasher(code, 'ts'))
+    .toThrowErrorMatchingInlineSnapshot(`
+      [Error: 
+      ## Type expectation failed
+
+      The ^? on line 4 expects a different type.
+
+      - Expected
+      + Received
+
+      - string | undefined
+      + "yes" | undefined]
+    `)
+
+  expect(() => twoslasher(`
+// @assertTypes
+// $ExpectType string
+const count = 1
+`, 'ts'))
+    .toThrowError(`The $ExpectType of the statement on line 4 expects a different type.`)
+
+  // Blank lines between the comment and the statement
+  expect(() => twoslasher(`
+// @assertTypes
+// $ExpectType string
+
+const count = 1
+`, 'ts'))
+    .toThrowError(`The $ExpectType of the statement on line 5 expects a different type.`)
+})
+
+it('ignores the expectations by default', () => {
+  const code = `
+const a = 1
+//    ^? string
+`
+  expect(twoslasher(code, 'ts').queries[0].text).toEqual('const a: 1')
+})
+
+it('keeps the $ExpectType comments by default', () => {
+  const code = `
+// $ExpectType string
+const a = 1
+`
+  expect(twoslasher(code, 'ts').code).toContain('// $ExpectType string')
+  expect(removeTwoslashNotations(code)).toContain('// $ExpectType string')
+  expect(removeTwoslashNotations(`// @assertTypes${code}`)).not.toContain('$ExpectType')
+})
@@ -0,0 +1,185 @@
+import { expect, it } from 'vitest'
+import { createTwoslasher } from '../src/index'
+
+const twoslasher = createTwoslasher()
+
+it('describes the structure of queried types', () => {
+  const code = `
+// @typeTree
+type Result = { ok: true, value: string[] } | { ok: false, readonly error?: Error }
+//   ^?
+`
+  const result = twoslasher(code, 'ts')
+
+  expect(result.queries[0].typeTree).toMatchInlineSnapshot(`
+    {
+      "kind": "union",
+      "text": "Result",
+      "types": [
+        {
+          "kind": "object",
+          "properties": [
+            {
+              "name": "ok",
+              "type": {
+                "kind": "literal",
+                "text": "true",
+              },
+            },
+            {
+              "name": "value",
+              "type": {
+                "kind": "array",
+                "text": "string[]",
+                "typeArguments": [
+                  {
+                    "kind": "primitive",
+                    "text": "string",
+                  },
+                ],
+              },
+            },
+          ],
+          "text": "{ ok: true; value: string[]; }",
+        },
+        {
+          "kind": "object",
+          "properties": [
+            {
+              "name": "ok",
+              "type": {
+                "kind": "literal",
+                "text": "false",
+              },
+            },
+            {
+              "name": "error",
+              "optional": true,
+              "readonly": true,
+              "type": {
+                "kind": "union",
+                "text": "Error | undefined",
+                "types": [
+                  {
+                    "kind": "primitive",
+                    "text": "undefined",
+                  },
+                  {
+                    "kind": "object",
+                    "text": "Error",
+                    "truncated": true,
+                  },
+                ],
+              },
+            },
+          ],
+          "text": "{ ok: false; readonly error?: Error | undefined; }",
+        },
+      ],
+    }
+  `)
+  expect(JSON.parse(JSON.stringify(result.queries[0].typeTree))).toEqual(result.queries[0].typeTree)
+})
+
+it('describes functions and type arguments', () => {
+  const code = `
+// @typeTree: 2
+declare function fetchUser(id: number, cache?: boolean): Promise<{ name: string }>
+//               ^?
+`
+  const result = twoslasher(code, 'ts')
+
+  expect(result.queries[0].typeTree).toMatchInlineSnapshot(`
+    {
+      "kind": "function",
+      "signatures": [
+        {
+          "parameters": [
+            {
+              "name": "id",
+              "type": {
+                "kind": "primitive",
+                "text": "number",
+              },
+            },
+            {
+              "name": "cache",
+              "optional": true,
+              "type": {
+                "kind": "union",
+                "text": "boolean | undefined",
+                "types": [
+                  {
+                    "kind": "primitive",
+                    "text": "undefined",
+                  },
+                  {
+                    "kind": "literal",
+                    "text": "false",
+                  },
+                  {
+                    "kind": "literal",
+                    "text": "true",
+                  },
+                ],
+              },
+            },
+          ],
+          "returnType": {
+            "kind": "object",
+            "properties": [
+              {
+                "name": "then",
+                "type": {
+                  "kind": "function",
+                  "text": "<TResult1 = { name: string; }, TResult2 = never>(onfulfilled?: ((value: { name: string; }) => TResult1 | PromiseLike<TResult1>) | null | undefined, onrejected?: ((reason: any) => TResult2 | PromiseLike<...>) | null | undefined) => Promise<...>",
+                  "truncated": true,
+                },
+              },
+              {
+                "name": "catch",
+                "type": {
+                  "kind": "function",
+                  "text": "<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | null | undefined) => Promise<{ name: string; } | TResult>",
+                  "truncated": true,
+                },
+              },
+              {
+                "name": "finally",
+                "type": {
+                  "kind": "function",
+                  "text": "(onfinally?: (() => void) | null | undefined) => Promise<{ name: string; }>",
+                  "truncated": true,
+                },
+              },
+              {
+                "name": "[Symbol.toStringTag]",
+                "readonly": true,
+                "type": {
+                  "kind": "primitive",
+                  "text": "string",
+                },
+              },
+            ],
+            "text": "Promise<{ name: string; }>",
+            "typeArguments": [
+              {
+                "kind": "object",
+                "text": "{ name: string; }",
+                "truncated": true,
+              },
+            ],
+          },
+          "text": "(id: number, cache?: boolean | undefined): Promise<{ name: string; }>",
+        },
+      ],
+      "text": "(id: number, cache?: boolean | undefined) => Promise<{ name: string; }>",
+    }
+  `)
+})
+
+it('is not attached by default', () => {
+  const result = twoslasher(`const a = { b: 1 }`, 'ts')
+
+  expect(result.hovers[0].typeTree).toBeUndefined()
+})
@@ -0,0 +1,146 @@
+import { expect, it } from 'vitest'
+import { createTwoslasher, fixErrorsAnnotation, setErrorsAnnotation, updateTwoslashAnnotations } from '../src/index'
+
+const twoslasher = createTwoslasher()
+
+it('writes the current types after the queries', () => {
+  const code = `
+interface User { name: string }
+type Draft = Partial<User>
+//   ^??
+const hi = 'Hello'
+//    ^? string
+//    ^?
+const user: User = { name: hi }
+//                   ^?
+`
+  expect(updateTwoslashAnnotations(code, 'ts', { twoslasher })).toMatchInlineSnapshot(`
+    "
+    interface User { name: string }
+    type Draft = Partial<User>
+    //   ^?? { name?: string | undefined; }
+    const hi = 'Hello'
+    //    ^? "Hello"
+    //    ^? "Hello"
+    const user: User = { name: hi }
+    //                   ^? string
+    "
+  `)
+})
+
+it('writes the types of short names and parameters', () => {
+  const code = `
+const t = 1
+//    ^?
+function greet(a: string) {
+//             ^?
+  return a
+}
+`
+  expect(updateTwoslashAnnotations(code, 'ts', { twoslasher })).toMatchInlineSnapshot(`
+    "
+    const t = 1
+    //    ^? 1
+    function greet(a: string) {
+    //             ^? string
+      return a
+    }
+    "
+  `)
+})
+
+it('regenerates the errors flag', () => {
+  const code = `
+// @errors: 2588 2304
+const a: string = 1
+`
+  expect(updateTwoslashAnnotations(code, 'ts', { twoslasher })).toMatchInlineSnapshot(`
+    "
+    // @errors: 2322
+    const a: string = 1
+    "
+  `)
+
+  expect(updateTwoslashAnnotations(`// @strict
+const a: string = 1
+const b: number = 'b'
+`, 'ts', { twoslasher })).toMatchInlineSnapshot(`
+  "// @errors: 2322
+  // @strict
+  const a: string = 1
+  const b: number = 'b'
+  "
+`)
+
+  expect(updateTwoslashAnnotations(`// @errors: 2322
+const a = 1
+`, 'ts', { twoslasher })).toMatchInlineSnapshot(`
+  "const a = 1
+  "
+`)
+})
+
+it('keeps the codes of the errors in cut code', () => {
+  const code = `
+// @errors: 2322 2588
+const a: string = 1
+// ---cut---
+const b = 1
+b = 2
+`
+  const updated = updateTwoslashAnnotations(code, 'ts', { twoslasher })
+  expect(updated).toContain('// @errors: 2322 2588\n')
+  expect(() => twoslasher(updated, 'ts')).not.toThrow()
+})
+
+it('keeps the queries after the cuts', () => {
+  const code = `
+const hidden = 1
+// ---cut---
+const shown = hidden + 1
+//    ^? stale
+`
+  expect(updateTwoslashAnnotations(code, 'ts', { twoslasher, errors: false }))
+    .toContain('//    ^? number')
+})
+
+it('fixes the errors flag only', () => {
+  const code = `
+// @errors: 2304
+const hi = 'Hello'
+//    ^? stale
+const a: string = 1
+hi = 'Hi'
+`
+  expect(() => twoslasher(code, 'ts')).toThrowError('These errors were not marked as being expected: 2322 2588')
+
+  const fixed = fixErrorsAnnotation(code, 'ts', { twoslasher })
+  expect(fixed).toContain('// @errors: 2322 2588\n')
+  expect(fixed).toContain('//    ^? stale')
+  expect(() => twoslasher(fixed, 'ts')).not.toThrow()
+})
+
+it('keeps the codes of the errors in hidden code when fixing', () => {
+  const code = `
+// @noUnusedErrors
+// @errors: 2322 2304
+// ---cut-start---
+const a: string = 1
+// ---cut-end---
+const b = 1
+`
+  expect(() => twoslasher(code, 'ts')).toThrowError('but were not thrown: 2304.')
+
+  const fixed = fixErrorsAnnotation(code, 'ts', { twoslasher })
+  expect(fixed).toContain('// @errors: 2322\n')
+  expect(() => twoslasher(fixed, 'ts')).not.toThrow()
+})
+
+it('sets the errors flag without running twoslash', () => {
+  expect(setErrorsAnnotation('// @strict\n// @errors: 1 2\nconst a = 1\n', [3, 3, 4]))
+    .toEqual('// @strict\n// @errors: 3 4\nconst a = 1\n')
+  expect(setErrorsAnnotation('const a = 1\n', [2322]))
+    .toEqual('// @errors: 2322\nconst a = 1\n')
+  expect(setErrorsAnnotation('// @errors: 2322\nconst a = 1\n', []))
+    .toEqual('const a = 1\n')
+})
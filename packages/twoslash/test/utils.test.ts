@@ -1,6 +1,6 @@
 import ts from 'typescript'
 import { expect, it } from 'vitest'
-import { getIdentifierTextSpans, removeTsExtension } from '../src/utils'
+import { getIdentifierTextSpans, mapRangeWithRemovals, removeTsExtension } from '../src/utils'
 
 it('gets the expected identifiers', () => {
   const file = ts.createSourceFile(
@@ -40,3 +40,11 @@ it('reduces filenames down', () => {
   expect(removeTsExtension('foo')).toEqual('foo')
   expect(removeTsExtension('foo.vue')).toEqual('foo')
 })
+
+it('maps ranges with removals', () => {
+  const removals: [number, number][] = [[0, 5], [10, 15]]
+  expect(mapRangeWithRemovals([5, 10], removals)).toEqual([0, 5])
+  expect(mapRangeWithRemovals([3, 12], removals)).toEqual([0, 5])
+  expect(mapRangeWithRemovals([16, 20], removals)).toEqual([6, 10])
+  expect(mapRangeWithRemovals([11, 14], removals)).toBeUndefined()
+})